@@ -0,0 +1,302 @@
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { QsCliIo, run } from './cli';
+
+const exec = async (argv: string[], input: { files?: Record<string, string>; stdin?: string } = {}) => {
+	const result = { code: 0, stderr: '', stdout: '' };
+	const io: QsCliIo = {
+		readFile: path => {
+			if (!input.files?.[path]) {
+				throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+			}
+
+			return input.files[path];
+		},
+		readStdin: async () => {
+			return input.stdin ?? '';
+		},
+		stderr: text => {
+			result.stderr += text;
+		},
+		stdout: text => {
+			result.stdout += text;
+		}
+	};
+
+	result.code = await run(argv, io);
+
+	return result;
+};
+
+describe('/cli', () => {
+	describe('parse', () => {
+		it('should pretty-print a query as JSON', async () => {
+			const result = await exec(['parse', '?page=2&filters.status[0]=open&q=a%20b']);
+
+			expect(result.code).toEqual(0);
+			expect(JSON.parse(result.stdout)).toEqual({ filters: { status: ['open'] }, page: 2, q: 'a b' });
+			expect(result.stdout).toContain('\n  "page": 2');
+		});
+
+		it('should read only the search of a url', async () => {
+			const result = await exec(['parse', 'https://example.com/path?user_name=john#frag', '--case', 'snake_case']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ userName: 'john' });
+		});
+
+		it('should read stdin', async () => {
+			const result = await exec(['parse', '--prefix', 'f-', '--restore-case', 'false'], { stdin: 'f-page=2&utm=x\n' });
+
+			expect(JSON.parse(result.stdout)).toEqual({ page: 2 });
+		});
+
+		it('should print values JSON cannot hold', async () => {
+			const result = await exec(['parse', '?id=bigint(10)&tags=set(%5B%22a%22%5D)', '--codecs', 'bigint,set']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ id: '10', tags: ['a'] });
+		});
+
+		it('should apply the sparse array policy', async () => {
+			const result = await exec(['parse', '?rows[0]=a&rows[2]=c', '--sparse-arrays', 'compact']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ rows: ['a', 'c'] });
+		});
+
+		it('should read form bodies', async () => {
+			const result = await exec(['parse', 'utf8=%26%2310003%3B&name=Jos%E9+%26%2310003%3B', '--mode', 'form', '--charset-sentinel']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ name: 'José ✓' });
+		});
+
+		it('should read flags and null sentinels', async () => {
+			const result = await exec(['parse', '?debug&status=~', '--bare-keys', 'true', '--null-value', '~']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ debug: true, status: null });
+		});
+
+		it('should resolve duplicates and path conflicts', async () => {
+			const result = await exec(['parse', '?a=1&a=2&b.c=1&b=2', '--duplicates', 'combine', '--path-conflicts', 'nested']);
+			const error = await exec(['parse', '?a=1&a=2', '--duplicates', 'error']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ a: [1, 2], b: { c: 1 } });
+			expect(error.code).toEqual(2);
+			expect(error.stderr).toEqual('use-qs: Invalid query string: duplicate key at 5\n');
+		});
+
+		it('should split namespaces', async () => {
+			const result = await exec(['parse', '?f-page=2&utm=x', '--namespace', 'filters=f-']);
+
+			expect(JSON.parse(result.stdout)).toEqual({ filters: { page: 2 }, rest: { utm: 'x' } });
+		});
+
+		it('should read aliases with a key map file', async () => {
+			const files = { 'keys.json': JSON.stringify({ page: 'p', query: 'q' }) };
+			const result = await exec(['parse', '?q=a&p=2', '--key-map', 'keys.json'], { files });
+			const strict = await exec(['parse', '?q=a&x=1', '--key-map', 'keys.json', '--strict-key-map'], { files });
+
+			expect(JSON.parse(result.stdout)).toEqual({ page: 2, query: 'a' });
+			expect(strict.code).toEqual(2);
+			expect(strict.stderr).toEqual('use-qs: Query string key is not in keyMap: x\n');
+		});
+
+		it('should coerce with a schema file', async () => {
+			const schema = JSON.stringify({ page: { type: 'number' }, q: { type: 'string' } });
+			const result = await exec(['parse', '?page=2&q=10', '--schema', 'schema.json'], { files: { 'schema.json': schema } });
+
+			expect(JSON.parse(result.stdout)).toEqual({ page: 2, q: '10' });
+		});
+
+		it('should lift safe mode', async () => {
+			const query = `?${Array.from({ length: 25 }, (_, index) => `k${index}`).join('.')}=x`;
+			const safe = await exec(['parse', query]);
+			const unsafe = await exec(['parse', query, '--no-safe']);
+
+			expect(JSON.parse(safe.stdout)).toEqual({});
+			expect(JSON.stringify(JSON.parse(unsafe.stdout))).toContain('"k24":"x"');
+		});
+
+		it('should fail on malformed input', async () => {
+			const limit = await exec(['parse', '?a=1&b=2', '--parameter-limit', '1', '--on-limit', 'throw']);
+			const url = await exec(['parse', 'https://exa mple.com/?a=1']);
+			const schema = await exec(['parse', '?page=x', '--schema', 'schema.json'], {
+				files: { 'schema.json': JSON.stringify({ page: { type: 'number' } }) }
+			});
+
+			expect(limit.code).toEqual(2);
+			expect(limit.stderr).toEqual('use-qs: Query string exceeds parameterLimit: 2\n');
+			expect(url.code).toEqual(2);
+			expect(url.stderr).toContain('use-qs: Invalid URL');
+			expect(schema.code).toEqual(2);
+			expect(schema.stderr).toContain('use-qs: Invalid query string: page');
+			expect(schema.stdout).toEqual('');
+
+			const strict = await exec(['parse', '?a=%&=x', '--strict']);
+
+			expect(strict.code).toEqual(2);
+			expect(strict.stderr).toEqual('use-qs: Invalid query string: malformed percent escape in value at 3, empty key at 5\n');
+		});
+	});
+
+	describe('stringify', () => {
+		it('should read JSON from stdin', async () => {
+			const result = await exec(['stringify', '--case', 'kebab-case'], { stdin: '{"pageSize": 10, "tags": ["a", "b"]}' });
+
+			expect(result.code).toEqual(0);
+			expect(result.stdout).toEqual('?page-size=10&tags[0]=a&tags[1]=b\n');
+		});
+
+		it('should write form bodies', async () => {
+			const result = await exec(['stringify', '--mode', 'form', '--nesting', 'brackets'], { stdin: '{"user": {"name": "José"}}' });
+
+			expect(result.stdout).toEqual('user%5Bname%5D=Jos%C3%A9\n');
+		});
+
+		it('should write flags and nulls as bare keys', async () => {
+			const result = await exec(['stringify', '--bare-keys', 'null'], { stdin: '{"debug": true, "status": null}' });
+
+			expect(result.stdout).toEqual('?debug=true&status\n');
+		});
+
+		it('should omit defaults', async () => {
+			const result = await exec(['stringify', '--defaults', 'defaults.json'], {
+				files: { 'defaults.json': '{"page": 1, "sort": "asc"}' },
+				stdin: '{"page": 1, "sort": "desc"}'
+			});
+
+			expect(result.stdout).toEqual('?sort=desc\n');
+		});
+
+		it('should read JSON from a file', async () => {
+			const result = await exec(['stringify', 'state.json', '--no-query-prefix', '--omit', 'null', '--omit', '""', '--sort'], {
+				files: { 'state.json': '{"b": 1, "a": "", "c": null, "d": "x"}' }
+			});
+
+			expect(result.stdout).toEqual('b=1&d=x\n');
+		});
+
+		it('should apply format flags', async () => {
+			const result = await exec(['stringify', '--array-format', 'comma', '--nesting', 'brackets', '--prefix', 'f-'], {
+				stdin: '{"user": {"tags": ["a", "b"]}}'
+			});
+
+			expect(result.stdout).toEqual('?f-user[tags]=a,b\n');
+		});
+
+		it('should round trip compact state', async () => {
+			const state = { filters: { status: ['open', 'closed'] }, page: 2 };
+			const stringified = await exec(['stringify', '--compact-path', 'filters', '--compact-key', 'st'], { stdin: JSON.stringify(state) });
+			const parsed = await exec(['parse', stringified.stdout, '--compact', '--compact-key', 'st']);
+
+			expect(stringified.stdout).toMatch(/^\?page=2&st=d\./);
+			expect(JSON.parse(parsed.stdout)).toEqual(state);
+		});
+
+		it('should fail on malformed input', async () => {
+			const json = await exec(['stringify'], { stdin: '{"a": ' });
+			const array = await exec(['stringify'], { stdin: '[1, 2]' });
+			const file = await exec(['stringify', 'missing.json']);
+
+			expect(json.code).toEqual(2);
+			expect(json.stderr).toMatch(/^use-qs: Invalid JSON in stdin: /);
+			expect(array.code).toEqual(2);
+			expect(array.stderr).toEqual('use-qs: Invalid input in stdin: expected a JSON object\n');
+			expect(file.code).toEqual(2);
+			expect(file.stderr).toContain('use-qs: ENOENT');
+		});
+	});
+
+	describe('diff', () => {
+		it('should exit 0 for equivalent queries', async () => {
+			const result = await exec(['diff', '?b=2&a=1', 'https://example.com/?a=1&b=2']);
+
+			expect(result).toEqual({ code: 0, stderr: '', stdout: '' });
+		});
+
+		it('should list removed, added and changed leaves', async () => {
+			const result = await exec(['diff', '?page=2&sort=asc&tags[0]=a', '?page=3&tags[0]=a&tags[1]=b&q=x']);
+
+			expect(result.code).toEqual(1);
+			expect(result.stdout).toEqual(['~ page: 2 -> 3', '+ q: "x"', '- sort: "asc"', '+ tags[1]: "b"', ''].join('\n'));
+		});
+
+		it('should compare with options', async () => {
+			const result = await exec(['diff', '?f-page=2&utm=a', '?f-page=2&utm=b', '--prefix', 'f-']);
+
+			expect(result.code).toEqual(0);
+		});
+	});
+
+	describe('usage', () => {
+		it('should print help', async () => {
+			const result = await exec(['--help']);
+
+			expect(result.code).toEqual(0);
+			expect(result.stdout).toContain('Usage:');
+		});
+
+		it('should fail on usage errors', async () => {
+			const cases = [
+				[],
+				['nope'],
+				['parse', '--nope'],
+				['parse', '--case', 'Title'],
+				['parse', '--depth', '-1'],
+				['parse', '--namespace', 'f-'],
+				['diff', '?a=1']
+			];
+
+			for (const argv of cases) {
+				const result = await exec(argv);
+
+				expect(result.code).toEqual(2);
+			}
+
+			expect((await exec(['parse', '--case', 'Title'])).stderr).toEqual(
+				"use-qs: Invalid --case 'Title', expected camelCase, snake_case, kebab-case\nRun 'use-qs --help' for usage.\n"
+			);
+			expect((await exec(['parse', '--codecs', 'toString'])).stderr).toContain("Unknown codec 'toString'");
+		});
+	});
+
+	describe('bin', () => {
+		let dir = '';
+
+		// Builds the bin the way it is published; lodash resolves as the peer dependency it is
+		const execBin = (argv: string[], stdin: string = '') => {
+			return spawnSync(process.execPath, [join(dir, 'bin.js'), ...argv], {
+				encoding: 'utf8',
+				env: { ...process.env, NODE_PATH: resolve('node_modules') },
+				input: stdin
+			});
+		};
+
+		beforeAll(() => {
+			dir = mkdtempSync(join(tmpdir(), 'use-qs-'));
+			execFileSync(process.execPath, [resolve('node_modules/typescript/bin/tsc'), '-p', 'tsconfig.bin.json', '--outDir', dir]);
+		}, 120000);
+
+		afterAll(() => {
+			rmSync(dir, { force: true, recursive: true });
+		});
+
+		it('should run with node and exit with its codes', () => {
+			const parsed = execBin(['parse', '?a=1']);
+			const built = execBin(['stringify', '--case', 'kebab-case'], '{"pageSize": 10}');
+			const diff = execBin(['diff', '?a=1', '?a=2']);
+			const usage = execBin(['parse', '--nope']);
+
+			expect(parsed.status).toEqual(0);
+			expect(JSON.parse(parsed.stdout)).toEqual({ a: 1 });
+			expect(built.status).toEqual(0);
+			expect(built.stdout).toEqual('?page-size=10\n');
+			expect(diff.status).toEqual(1);
+			expect(diff.stdout).toEqual('~ a: 1 -> 2\n');
+			expect(usage.status).toEqual(2);
+			expect(usage.stderr).toContain("use-qs: Unknown option '--nope'");
+		});
+	});
+});
@@ -0,0 +1,444 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import forEach from 'lodash/forEach';
+import has from 'lodash/has';
+import includes from 'lodash/includes';
+import isArray from 'lodash/isArray';
+import isEmpty from 'lodash/isEmpty';
+import isEqual from 'lodash/isEqual';
+import isMap from 'lodash/isMap';
+import isPlainObject from 'lodash/isPlainObject';
+import isSet from 'lodash/isSet';
+import isUndefined from 'lodash/isUndefined';
+import keys from 'lodash/keys';
+import map from 'lodash/map';
+import sortBy from 'lodash/sortBy';
+import uniq from 'lodash/uniq';
+
+import qs, { QsCodec, QsOptions } from './index';
+
+type QsCliIo = {
+	readFile: (path: string) => string;
+	readStdin: () => Promise<string>;
+	stderr: (text: string) => void;
+	stdout: (text: string) => void;
+};
+type QsCliValues = ReturnType<typeof parseCliArgs>['values'];
+
+class QsUsageError extends Error {
+	constructor(message: string) {
+		super(message);
+
+		this.name = 'QsUsageError';
+	}
+}
+
+const CLI_OPTIONS = {
+	'array-format': { type: 'string' },
+	'array-format-separator': { type: 'string' },
+	'array-limit': { type: 'string' },
+	'bare-keys': { type: 'string' },
+	case: { type: 'string' },
+	charset: { type: 'string' },
+	'charset-sentinel': { type: 'boolean' },
+	codecs: { type: 'string' },
+	compact: { type: 'boolean' },
+	'compact-key': { type: 'string' },
+	'compact-path': { multiple: true, type: 'string' },
+	compressor: { type: 'string' },
+	defaults: { type: 'string' },
+	depth: { type: 'string' },
+	duplicates: { type: 'string' },
+	'encode-values-only': { type: 'boolean' },
+	format: { type: 'string' },
+	help: { short: 'h', type: 'boolean' },
+	'key-map': { type: 'string' },
+	'max-length': { type: 'string' },
+	mode: { type: 'string' },
+	namespace: { multiple: true, type: 'string' },
+	nesting: { type: 'string' },
+	'no-encode': { type: 'boolean' },
+	'no-query-prefix': { type: 'boolean' },
+	'no-safe': { type: 'boolean' },
+	'null-value': { type: 'string' },
+	omit: { multiple: true, type: 'string' },
+	'on-limit': { type: 'string' },
+	'parameter-limit': { type: 'string' },
+	'path-conflicts': { type: 'string' },
+	prefix: { type: 'string' },
+	'restore-case': { type: 'string' },
+	schema: { type: 'string' },
+	sort: { type: 'boolean' },
+	'sparse-arrays': { type: 'string' },
+	strict: { type: 'boolean' },
+	'strict-key-map': { type: 'boolean' }
+} as const;
+
+const USAGE = `Usage:
+  use-qs parse [options] [url or query]      Print a query string as JSON (reads stdin when omitted)
+  use-qs stringify [options] [file]          Build a query string from JSON (reads stdin when omitted)
+  use-qs diff [options] <a> <b>              Show the semantic difference between two query strings
+
+Options:
+  --array-format <format>          indices, brackets, repeat or comma
+  --array-format-separator <sep>   Separator for the comma format
+  --array-limit <n>                Highest array index
+  --bare-keys <value>              Value of keys without '=': empty, true or null
+  --case <case>                    camelCase, snake_case or kebab-case
+  --charset <charset>              utf-8 or iso-8859-1, for form bodies
+  --charset-sentinel               Read and write the utf8 charset param of form bodies
+  --codecs <names>                 Comma-separated codecs: ${keys(qs.codecs).join(', ')}
+  --compact                        Read or write compressed state
+  --compact-key <key>              Param holding compressed state
+  --compact-path <path>            Compress only this path (repeatable)
+  --compressor <name>              ${keys(qs.compressors).join(' or ')}
+  --defaults <file>                JSON file with values to omit on stringify and fill in on parse
+  --depth <n>                      Deepest nesting level
+  --duplicates <rule>              last, first, combine or error
+  --encode-values-only             Leave keys unencoded
+  --format <format>                RFC3986 or RFC1738
+  --key-map <file>                 JSON file mapping key paths to their public names
+  --max-length <n>                 Longest accepted input
+  --mode <mode>                    query or form (application/x-www-form-urlencoded)
+  --namespace <name=prefix>        Read and write params with this prefix under name (repeatable)
+  --nesting <nesting>              dots or brackets
+  --no-encode                      Leave keys and values unencoded
+  --no-query-prefix                Omit the leading '?'
+  --no-safe                        Lift the default limits
+  --null-value <sentinel>          Write and read null as this value
+  --omit <value>                   Omit this JSON value on stringify (repeatable)
+  --on-limit <mode>                truncate or throw
+  --parameter-limit <n>            Most params accepted
+  --path-conflicts <rule>          last, first, nested, scalar or error
+  --prefix <prefix>                Only read and write keys with this prefix
+  --restore-case <case>            camelCase, snake_case, kebab-case or false
+  --schema <file>                  JSON schema file used to coerce parsed values
+  --sort                           Sort keys
+  --sparse-arrays <policy>         preserve, compact or object
+  --strict                         Fail on malformed input instead of recovering
+  --strict-key-map                 Reject keys missing from the key map
+  -h, --help                       Show this help
+
+Exit codes: 0 success, 1 differences found by diff, 2 usage error or malformed input`;
+
+const defaultIo: QsCliIo = {
+	readFile: path => {
+		return readFileSync(path, 'utf8');
+	},
+	readStdin: async () => {
+		if (process.stdin.isTTY) {
+			throw new QsUsageError('No input, pass it as an argument or pipe it to stdin');
+		}
+
+		let data = '';
+
+		for await (const chunk of process.stdin) {
+			data += chunk;
+		}
+
+		return data;
+	},
+	stderr: text => {
+		process.stderr.write(text);
+	},
+	stdout: text => {
+		process.stdout.write(text);
+	}
+};
+
+const parseCliArgs = (argv: string[]) => {
+	try {
+		return parseArgs({ allowPositionals: true, args: argv, options: CLI_OPTIONS, strict: true });
+	} catch (err) {
+		throw new QsUsageError((err as Error).message);
+	}
+};
+
+const readEnum = <T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined => {
+	if (isUndefined(value)) {
+		return undefined;
+	}
+
+	if (!includes(allowed, value)) {
+		throw new QsUsageError(`Invalid --${flag} '${value}', expected ${allowed.join(', ')}`);
+	}
+
+	return value as T;
+};
+
+const readInteger = (flag: string, value: string | undefined): number | undefined => {
+	if (isUndefined(value)) {
+		return undefined;
+	}
+
+	if (!/^\d+$/.test(value)) {
+		throw new QsUsageError(`Invalid --${flag} '${value}', expected a non-negative integer`);
+	}
+
+	return Number(value);
+};
+
+const readJson = (text: string, source: string): any => {
+	try {
+		return JSON.parse(text);
+	} catch (err) {
+		throw new Error(`Invalid JSON in ${source}: ${(err as Error).message}`);
+	}
+};
+
+const buildOptions = (values: QsCliValues, io: QsCliIo): QsOptions => {
+	const options: QsOptions = {
+		arrayFormat: readEnum('array-format', values['array-format'], ['indices', 'brackets', 'repeat', 'comma'] as const),
+		arrayFormatSeparator: values['array-format-separator'],
+		arrayLimit: readInteger('array-limit', values['array-limit']),
+		bareKeys: readEnum('bare-keys', values['bare-keys'], ['empty', 'true', 'null'] as const),
+		case: readEnum('case', values.case, ['camelCase', 'snake_case', 'kebab-case'] as const),
+		charset: readEnum('charset', values.charset, ['utf-8', 'iso-8859-1'] as const),
+		charsetSentinel: values['charset-sentinel'],
+		compactKey: values['compact-key'],
+		depth: readInteger('depth', values.depth),
+		duplicates: readEnum('duplicates', values.duplicates, ['last', 'first', 'combine', 'error'] as const),
+		format: readEnum('format', values.format, ['RFC3986', 'RFC1738'] as const),
+		maxLength: readInteger('max-length', values['max-length']),
+		mode: readEnum('mode', values.mode, ['query', 'form'] as const),
+		nesting: readEnum('nesting', values.nesting, ['dots', 'brackets'] as const),
+		nullValue: values['null-value'],
+		onLimit: readEnum('on-limit', values['on-limit'], ['truncate', 'throw'] as const),
+		parameterLimit: readInteger('parameter-limit', values['parameter-limit']),
+		pathConflicts: readEnum('path-conflicts', values['path-conflicts'], ['last', 'first', 'nested', 'scalar', 'error'] as const),
+		prefix: values.prefix,
+		sort: values.sort,
+		sparseArrays: readEnum('sparse-arrays', values['sparse-arrays'], ['compact', 'preserve', 'object'] as const),
+		strict: values.strict,
+		strictKeyMap: values['strict-key-map']
+	};
+
+	if (values['restore-case']) {
+		const restoreCase = readEnum('restore-case', values['restore-case'], ['camelCase', 'snake_case', 'kebab-case', 'false'] as const);
+
+		options.restoreCase = restoreCase === 'false' ? false : restoreCase;
+	}
+
+	if (values.codecs) {
+		const names = keys(qs.codecs) as (keyof typeof qs.codecs)[];
+
+		options.codecs = map(values.codecs.split(','), (name): QsCodec => {
+			if (!includes(names, name.trim())) {
+				throw new QsUsageError(`Unknown codec '${name}', expected ${names.join(', ')}`);
+			}
+
+			return qs.codecs[name.trim() as keyof typeof qs.codecs];
+		});
+	}
+
+	if (values.compact || values['compact-path']) {
+		options.compact = values['compact-path'] ?? true;
+	}
+
+	if (values.compressor) {
+		options.compressor =
+			qs.compressors[readEnum('compressor', values.compressor, keys(qs.compressors) as (keyof typeof qs.compressors)[])!];
+	}
+
+	if (values['encode-values-only']) {
+		options.encodeValuesOnly = true;
+	}
+
+	if (values.defaults) {
+		options.defaults = readJson(io.readFile(values.defaults), values.defaults);
+	}
+
+	if (values['key-map']) {
+		options.keyMap = readJson(io.readFile(values['key-map']), values['key-map']);
+	}
+
+	if (values.namespace) {
+		options.namespaces = {};
+
+		forEach(values.namespace, namespace => {
+			const [name, prefix] = namespace.split('=');
+
+			if (!name || !prefix) {
+				throw new QsUsageError(`Invalid --namespace '${namespace}', expected name=prefix`);
+			}
+
+			options.namespaces![name] = prefix;
+		});
+	}
+
+	if (values['no-encode']) {
+		options.encode = false;
+	}
+
+	if (values['no-query-prefix']) {
+		options.addQueryPrefix = false;
+	}
+
+	if (values['no-safe']) {
+		options.safe = false;
+	}
+
+	// Omitted values are JSON, so `--omit null` and `--omit '""'` work, anything else is a plain string
+	if (values.omit) {
+		options.omitValues = map(values.omit, value => {
+			try {
+				return JSON.parse(value);
+			} catch {
+				return value;
+			}
+		});
+	}
+
+	if (values.schema) {
+		options.schema = readJson(io.readFile(values.schema), values.schema);
+	}
+
+	return options;
+};
+
+// Absolute URLs are read through URL, so only their search is parsed
+const readQuery = (input: string) => {
+	const trimmed = input.trim();
+
+	return /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? new URL(trimmed) : trimmed;
+};
+
+// Values JSON cannot hold are printed in a readable form
+const toJson = (value: any): string => {
+	return JSON.stringify(
+		value,
+		(_key, value) => {
+			if (typeof value === 'bigint') {
+				return value.toString();
+			}
+
+			if (isMap(value)) {
+				return Object.fromEntries(value);
+			}
+
+			if (isSet(value)) {
+				return [...value];
+			}
+
+			if (value instanceof RegExp) {
+				return value.toString();
+			}
+
+			return value;
+		},
+		2
+	);
+};
+
+const flattenLeaves = (value: any, path: string = '', leaves: Record<string, any> = {}): Record<string, any> => {
+	const isBranch = (isPlainObject(value) || isArray(value)) && !isEmpty(value);
+
+	// The root is always an object, so an empty one has no leaves
+	if (!isBranch) {
+		if (path) {
+			leaves[path] = value;
+		}
+
+		return leaves;
+	}
+
+	forEach(value, (child, key) => {
+		const childPath = isArray(value) ? `${path}[${key}]` : path ? `${path}.${key}` : String(key);
+
+		flattenLeaves(child, childPath, leaves);
+	});
+
+	return leaves;
+};
+
+const diffStates = (a: Record<string, any>, b: Record<string, any>): string[] => {
+	const aLeaves = flattenLeaves(a);
+	const bLeaves = flattenLeaves(b);
+	const paths = sortBy(uniq([...keys(aLeaves), ...keys(bLeaves)]));
+
+	return paths.reduce((lines: string[], path) => {
+		if (!has(bLeaves, path)) {
+			lines.push(`- ${path}: ${toJson(aLeaves[path])}`);
+		} else if (!has(aLeaves, path)) {
+			lines.push(`+ ${path}: ${toJson(bLeaves[path])}`);
+		} else if (!isEqual(aLeaves[path], bLeaves[path])) {
+			lines.push(`~ ${path}: ${toJson(aLeaves[path])} -> ${toJson(bLeaves[path])}`);
+		}
+
+		return lines;
+	}, []);
+};
+
+const run = async (argv: string[], io: QsCliIo = defaultIo): Promise<number> => {
+	try {
+		const { positionals, values } = parseCliArgs(argv);
+		const [command, ...args] = positionals;
+
+		if (values.help || !command) {
+			(values.help ? io.stdout : io.stderr)(`${USAGE}\n`);
+
+			return values.help ? 0 : 2;
+		}
+
+		const options = buildOptions(values, io);
+
+		if (command === 'parse') {
+			if (args.length > 1) {
+				throw new QsUsageError('parse takes a single url or query');
+			}
+
+			const input = args.length ? args[0] : await io.readStdin();
+
+			io.stdout(`${toJson(await qs.parseAsync(readQuery(input), options))}\n`);
+
+			return 0;
+		}
+
+		if (command === 'stringify') {
+			if (args.length > 1) {
+				throw new QsUsageError('stringify takes a single file');
+			}
+
+			const source = args.length && args[0] !== '-' ? args[0] : 'stdin';
+			const obj = readJson(source === 'stdin' ? await io.readStdin() : io.readFile(source), source);
+
+			if (!isPlainObject(obj)) {
+				throw new Error(`Invalid input in ${source}: expected a JSON object`);
+			}
+
+			io.stdout(`${await qs.stringifyAsync(obj, options)}\n`);
+
+			return 0;
+		}
+
+		if (command === 'diff') {
+			if (args.length !== 2) {
+				throw new QsUsageError('diff takes two urls or queries');
+			}
+
+			const [a, b] = await Promise.all(map(args, arg => qs.parseAsync(readQuery(arg), options)));
+			const lines = diffStates(a, b);
+
+			if (isEmpty(lines)) {
+				return 0;
+			}
+
+			io.stdout(`${lines.join('\n')}\n`);
+
+			return 1;
+		}
+
+		throw new QsUsageError(`Unknown command '${command}'`);
+	} catch (err) {
+		io.stderr(`use-qs: ${(err as Error).message}\n`);
+
+		if (err instanceof QsUsageError) {
+			io.stderr(`Run 'use-qs --help' for usage.\n`);
+		}
+
+		return 2;
+	}
+};
+
+export type { QsCliIo };
+export { run };
@@ -0,0 +1,59 @@
+import { bench, describe } from 'vitest';
+
+import qs from './index';
+
+// Inputs are generated deterministically, so runs are comparable across machines and commits
+const wide = Object.fromEntries(Array.from({ length: 5000 }, (_, index) => [`key${index}`, index % 3 === 0 ? `value ${index}` : index]));
+const deep = Array.from({ length: 200 }, (_, index) => index).reduce(
+	(reduction: Record<string, any>, index) => ({ [`level${index % 10}`]: reduction, [`leaf${index}`]: index }),
+	{ leaf: 'bottom' }
+);
+const arrays = {
+	ids: Array.from({ length: 2000 }, (_, index) => index),
+	rows: Array.from({ length: 500 }, (_, index) => ({ id: index, name: `row ${index}`, tags: ['a', 'b', 'c'] }))
+};
+
+const repeated = { tags: Array.from({ length: 5000 }, (_, index) => `tag${index}`) };
+
+const options = { safe: false };
+const wideStr = qs.stringify(wide, options);
+const deepStr = qs.stringify(deep, options);
+const arraysStr = qs.stringify(arrays, options);
+const bracketsStr = qs.stringify(repeated, { ...options, arrayFormat: 'brackets' });
+const repeatStr = qs.stringify(repeated, { ...options, arrayFormat: 'repeat' });
+
+describe('parse', () => {
+	bench('wide', () => {
+		qs.parse(wideStr, options);
+	});
+
+	bench('deep', () => {
+		qs.parse(deepStr, options);
+	});
+
+	bench('arrays', () => {
+		qs.parse(arraysStr, options);
+	});
+
+	bench('brackets arrays', () => {
+		qs.parse(bracketsStr, { ...options, arrayFormat: 'brackets' });
+	});
+
+	bench('repeat arrays', () => {
+		qs.parse(repeatStr, { ...options, arrayFormat: 'repeat' });
+	});
+});
+
+describe('stringify', () => {
+	bench('wide', () => {
+		qs.stringify(wide, options);
+	});
+
+	bench('deep', () => {
+		qs.stringify(deep, options);
+	});
+
+	bench('arrays', () => {
+		qs.stringify(arrays, options);
+	});
+});
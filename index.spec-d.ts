@@ -0,0 +1,33 @@
+import { describe, expectTypeOf, it } from 'vitest';
+
+import qs, { QsCased, QsPath } from './index';
+
+describe('/index', () => {
+	describe('get / set', () => {
+		type User = { pageSize: number; user: { name: string; skills: { level: number; name: string }[] } };
+
+		it('should type paths and values', () => {
+			expectTypeOf<QsPath<User>>().toEqualTypeOf<
+				| 'pageSize'
+				| 'user'
+				| 'user.name'
+				| 'user.skills'
+				| `user.skills[${number}]`
+				| `user.skills[${number}].level`
+				| `user.skills[${number}].name`
+			>();
+			expectTypeOf(qs.get<User, 'user.skills[0].level'>('', 'user.skills[0].level')).toEqualTypeOf<number | undefined>();
+			expectTypeOf(qs.parse<User>('')).toEqualTypeOf<User>();
+			expectTypeOf<QsCased<User, 'snake_case'>>().toEqualTypeOf<{
+				page_size: number;
+				user: { name: string; skills: { level: number; name: string }[] };
+			}>();
+		});
+
+		it('should accept undefined to remove a value', () => {
+			expectTypeOf(qs.set<User, 'user.name'>)
+				.parameter(2)
+				.toEqualTypeOf<string | undefined>();
+		});
+	});
+});
@@ -1,5 +1,6 @@
 import { expect, describe, it } from 'vitest';
-import qs from './index';
+import isPlainObject from 'lodash/isPlainObject';
+import qs, { QsCodec, QsCompressor, QsKeyMapError, QsLimitError, QsParseError, QsSchemaError } from './index';
 
 describe('/index', () => {
 	describe('parse', () => {
@@ -40,6 +41,124 @@ describe('/index', () => {
 					config: { theme: 'dark', enabled: true }
 				});
 			});
+
+			it('should only parse values that are JSON as a whole', () => {
+				expect(qs.parse('?a=%20true%20&b=-1.5&c=null&d=truthy&e=nullable&f=1a&g=[1')).toEqual({
+					a: true,
+					b: -1.5,
+					c: null,
+					d: 'truthy',
+					e: 'nullable',
+					f: '1a',
+					g: '[1'
+				});
+			});
+
+			it('should round trip large inputs', () => {
+				const obj = Object.fromEntries(Array.from({ length: 5000 }, (_, index) => [`key${index}`, { items: [index, `v${index}`] }]));
+
+				expect(qs.parse(qs.stringify(obj, { safe: false }), { safe: false })).toEqual(obj);
+			});
+		});
+
+		describe('decoding', () => {
+			it('should decode keys and values exactly once', () => {
+				expect(qs.parse('?first%20name=John%20Doe&literal=%2541&city=S%C3%A3o%20Paulo')).toEqual({
+					'first name': 'John Doe',
+					literal: '%41',
+					city: 'São Paulo'
+				});
+			});
+
+			it('should decode encoded structural characters in keys', () => {
+				expect(qs.parse('?user%5Bname%5D=John', { nesting: 'brackets' })).toEqual({ user: { name: 'John' } });
+			});
+
+			it('should keep malformed escapes', () => {
+				expect(qs.parse('?a=100%&b=%E0%A4%A')).toEqual({ a: '100%', b: '%E0%A4%A' });
+			});
+
+			it('should decode plus signs as spaces with RFC1738 format', () => {
+				expect(qs.parse('?q=a+b%2Bc', { format: 'RFC1738' })).toEqual({ q: 'a b+c' });
+				expect(qs.parse('?q=a+b%2Bc')).toEqual({ q: 'a+b+c' });
+			});
+
+			it('should use a custom decoder', () => {
+				const decode = (value: string, kind: 'key' | 'value') => (kind === 'key' ? value.toUpperCase() : value.toLowerCase());
+
+				expect(qs.parse('?a=B', { decode })).toEqual({ A: 'b' });
+			});
+		});
+
+		describe('input adapters', () => {
+			const expected = {
+				user: { name: 'John Doe', skills: ['js', 'ts'] },
+				q: 'a+b'
+			};
+
+			it('should parse URL search', () => {
+				const url = new URL('https://example.com/path?user.name=John%20Doe&user.skills[0]=js&user.skills[1]=ts&q=a%2Bb#hash');
+
+				expect(qs.parse(url)).toEqual(expected);
+			});
+
+			it('should parse URLSearchParams entries', () => {
+				const params = new URLSearchParams();
+
+				params.append('user.name', 'John Doe');
+				params.append('user.skills[0]', 'js');
+				params.append('user.skills[1]', 'ts');
+				params.append('q', 'a+b');
+
+				expect(qs.parse(params)).toEqual(expected);
+			});
+
+			it('should parse FormData entries, skipping files', () => {
+				const formData = new FormData();
+
+				formData.append('user.name', 'John Doe');
+				formData.append('user.skills[0]', 'js');
+				formData.append('user.skills[1]', 'ts');
+				formData.append('q', 'a+b');
+				formData.append('file', new Blob(['content']));
+
+				expect(qs.parse(formData)).toEqual(expected);
+			});
+
+			it('should parse Request URL search', () => {
+				const request = new Request('https://example.com/path?api-user-name=John&api-tags=a,b');
+
+				expect(qs.parse(request, { arrayFormat: 'comma', case: 'kebab-case', prefix: 'api-' })).toEqual({
+					userName: 'John',
+					tags: ['a', 'b']
+				});
+			});
+		});
+
+		describe('hash input', () => {
+			it('should parse the query of a hash route', () => {
+				expect(qs.parseHash('#/orders?status=open&page=2')).toEqual({ page: 2, status: 'open' });
+				expect(qs.parseHash('/orders?status=open')).toEqual({ status: 'open' });
+				expect(qs.parseHash('#/orders')).toEqual({});
+			});
+
+			it('should parse a fragment without a route as a query', () => {
+				expect(qs.parseHash('#access_token=abc&token_type=bearer&expires_in=3600')).toEqual({
+					access_token: 'abc',
+					expires_in: 3600,
+					token_type: 'bearer'
+				});
+			});
+
+			it('should read the fragment of a url', () => {
+				expect(qs.parseHash('https://example.com/app?page=1#/orders?page=2')).toEqual({ page: 2 });
+				expect(qs.parseHash(new URL('https://example.com/callback#state=x%20y'))).toEqual({ state: 'x y' });
+				expect(qs.parseHash('https://example.com/app?page=1')).toEqual({});
+			});
+
+			it('should apply options', () => {
+				expect(qs.parseHash('#/list?f-page_size=10&utm=x', { case: 'snake_case', prefix: 'f-' })).toEqual({ pageSize: 10 });
+			});
 		});
 
 		describe('nested structures', () => {
@@ -106,6 +225,71 @@ describe('/index', () => {
 					}
 				});
 			});
+
+			it('should parse dotted numbers as object keys', () => {
+				expect(qs.parse('?a.0=x&a.1=y&b[0]=x')).toEqual({ a: { '0': 'x', '1': 'y' }, b: ['x'] });
+				expect(qs.parse('?a[0]=x&a[5000]=y&a[1]=z')).toEqual({ a: { '0': 'x', '1': 'z', '5000': 'y' } });
+			});
+		});
+
+		describe('sparseArrays option', () => {
+			it('should preserve holes by default', () => {
+				const result = qs.parse('?a[1]=x&a[3]=y');
+
+				expect(result).toEqual({ a: [undefined, 'x', undefined, 'y'] });
+				expect(0 in result.a).toBe(false);
+			});
+
+			it('should compact sparse arrays', () => {
+				expect(qs.parse('?rows[0].name=a&rows[2].name=c&tags[3]=x', { sparseArrays: 'compact' })).toEqual({
+					rows: [{ name: 'a' }, { name: 'c' }],
+					tags: ['x']
+				});
+			});
+
+			it('should turn sparse arrays into objects', () => {
+				expect(qs.parse('?a[2]=y&a[5]=x&b[0]=z&c[1][0]=w', { sparseArrays: 'object' })).toEqual({
+					a: { '2': 'y', '5': 'x' },
+					b: ['z'],
+					c: { '1': ['w'] }
+				});
+			});
+		});
+
+		describe('nesting option', () => {
+			it('should parse bracket object keys', () => {
+				expect(qs.parse('?user[name]=John&user[address][city]=X&user[skills][0]=js&user[skills][]=ts', { nesting: 'brackets' })).toEqual({
+					user: {
+						name: 'John',
+						address: { city: 'X' },
+						skills: ['js', 'ts']
+					}
+				});
+			});
+
+			it('should keep dots literal with bracket nesting', () => {
+				expect(qs.parse('?file.name=a&users[0][first.name]=John', { nesting: 'brackets' })).toEqual({
+					'file.name': 'a',
+					users: [{ 'first.name': 'John' }]
+				});
+			});
+
+			it('should keep malformed bracket keys as a single key', () => {
+				expect(qs.parse('?a[b=1&c]d[=2', { nesting: 'brackets' })).toEqual({ 'a[b': 1, 'c]d[': 2 });
+			});
+
+			it('should apply prefix and case to every bracket segment', () => {
+				const options = { case: 'kebab-case' as const, nesting: 'brackets' as const, prefix: 'api-' };
+
+				expect(qs.parse('?api-user-data[first-name]=John&api-user-data[phone-numbers][0]=123', options)).toEqual({
+					userData: { firstName: 'John', phoneNumbers: [123] }
+				});
+			});
+
+			it('should neutralise prototype pollution keys in brackets', () => {
+				expect(qs.parse('?a[__proto__][polluted]=1&b=2', { nesting: 'brackets' })).toEqual({ b: 2 });
+				expect(({} as any).polluted).toBeUndefined();
+			});
 		});
 
 		describe('prefix option', () => {
@@ -148,6 +332,399 @@ describe('/index', () => {
 			});
 		});
 
+		describe('namespaces option', () => {
+			const namespaces = { filters: 'f-', paging: 'p-', table: { case: 'kebab-case' as const, prefix: 't-' } };
+
+			it('should parse one object per namespace and keep the rest', () => {
+				expect(qs.parse('?f-status=open&p-page=2&t-sort-order=asc&utm=mail&ref.id=1', { namespaces })).toEqual({
+					filters: { status: 'open' },
+					paging: { page: 2 },
+					rest: { ref: { id: 1 }, utm: 'mail' },
+					table: { sortOrder: 'asc' }
+				});
+			});
+
+			it('should pick the longest matching prefix', () => {
+				expect(qs.parse('?f-a=1&f-x-a=2', { namespaces: { filters: 'f-', extra: 'f-x-' } })).toEqual({
+					extra: { a: 2 },
+					filters: { a: 1 }
+				});
+			});
+
+			it('should coerce namespaces with a schema', () => {
+				const schema = {
+					filters: qs.schema.object({ status: qs.schema.string() }),
+					paging: qs.schema.object({ page: qs.schema.number() })
+				};
+
+				expect(qs.parse('?f-status=10&p-page=3&utm=x', { namespaces, schema })).toEqual({ filters: { status: '10' }, paging: { page: 3 } });
+			});
+
+			it('should apply limits to the whole query string', () => {
+				expect(() => qs.parse('?f-a=1&p-b=2&c=3', { namespaces, onLimit: 'throw', parameterLimit: 2 })).toThrow(QsLimitError);
+				expect(qs.parse('?f-a.b=1', { depth: 1, namespaces })).toEqual({ filters: { a: { b: 1 } } });
+			});
+
+			it('should reserve the rest name', () => {
+				expect(() => qs.parse('?a=1', { namespaces: { rest: 'r-' } })).toThrow("Namespace 'rest' is reserved for unmatched params");
+			});
+		});
+
+		describe('keyMap option', () => {
+			const keyMap = {
+				filters: 'f',
+				'filters.status': 's',
+				'items.label': 'l',
+				page: 'p',
+				pageSize: 'sz',
+				query: 'q'
+			};
+
+			it('should read aliased keys', () => {
+				expect(qs.parse('?q=shoes&p=2&sz=20&other=1', { keyMap })).toEqual({ other: 1, page: 2, pageSize: 20, query: 'shoes' });
+			});
+
+			it('should read aliases at nested paths and inside arrays', () => {
+				expect(qs.parse('?f.s=open&f.s2=x&items[0].l=a&items[1].l=b&s=1', { keyMap })).toEqual({
+					filters: { s2: 'x', status: 'open' },
+					items: [{ label: 'a' }, { label: 'b' }],
+					s: 1
+				});
+			});
+
+			it('should apply aliases after prefix and case', () => {
+				expect(qs.parse('?api-q=a&api-sz=5&api-sort-order=asc', { case: 'kebab-case', keyMap, prefix: 'api-' })).toEqual({
+					pageSize: 5,
+					query: 'a',
+					sortOrder: 'asc'
+				});
+			});
+
+			it('should reject unknown keys in strict mode', () => {
+				expect(qs.parse('?q=a&f.s=open', { keyMap, strictKeyMap: true })).toEqual({ filters: { status: 'open' }, query: 'a' });
+				expect(() => qs.parse('?q=a&utm=mail', { keyMap, strictKeyMap: true })).toThrow(new QsKeyMapError('utm'));
+				expect(() => qs.parse('?f.x=1', { keyMap, strictKeyMap: true })).toThrow('Query string key is not in keyMap: filters.x');
+			});
+		});
+
+		describe('defaults option', () => {
+			const defaults = {
+				filters: { status: ['open'], tags: new Set(['a']) },
+				page: 1,
+				since: new Date('2024-01-01T00:00:00.000Z'),
+				sort: 'asc'
+			};
+
+			it('should fill missing values', () => {
+				expect(qs.parse('?page=2&filters.status[0]=closed&q=x', { defaults })).toEqual({
+					filters: { status: ['closed'], tags: new Set(['a']) },
+					page: 2,
+					q: 'x',
+					since: new Date('2024-01-01T00:00:00.000Z'),
+					sort: 'asc'
+				});
+			});
+
+			it('should replace arrays whole', () => {
+				expect(qs.parse('?status[0]=closed', { defaults: { status: ['open', 'pending'] } })).toEqual({ status: ['closed'] });
+			});
+
+			it('should not share default objects between results', () => {
+				const result = qs.parse('', { defaults });
+
+				result.filters.status.push('closed');
+
+				expect(defaults.filters.status).toEqual(['open']);
+				expect(qs.parse('', { defaults }).filters.status).toEqual(['open']);
+			});
+
+			it('should fill after schema coercion', () => {
+				const schema = { page: qs.schema.optional(qs.schema.number()) };
+
+				expect(qs.parse('?page=3', { defaults: { page: 1, sort: 'asc' }, schema })).toEqual({ page: 3, sort: 'asc' });
+				expect(qs.parse('', { defaults: { page: 1 }, schema })).toEqual({ page: 1 });
+			});
+		});
+
+		describe('strict option', () => {
+			it('should parse clean input as usual', () => {
+				expect(qs.parse('?a=1&b.c=x%20y&d=set(%5B1%5D)', { strict: true })).toEqual({ a: 1, b: { c: 'x y' }, d: new Set([1]) });
+			});
+
+			it('should report malformed percent escapes', () => {
+				expect(() => qs.parse('?a=%E0%A4%A&b%ZZ=1', { strict: true })).toThrow(
+					expect.objectContaining({
+						issues: [
+							{ key: 'a', message: 'malformed percent escape in value', offset: 3, segment: '%E0%A4%A' },
+							{ key: 'b%ZZ', message: 'malformed percent escape in key', offset: 12, segment: 'b%ZZ' }
+						]
+					})
+				);
+			});
+
+			it('should report empty keys', () => {
+				expect(() => qs.parse('a=1&=x&b=2', { strict: true })).toThrow(
+					expect.objectContaining({ issues: [{ key: '', message: 'empty key', offset: 4, segment: '=x' }] })
+				);
+			});
+
+			it('should report invalid codec payloads', () => {
+				expect(() => qs.parse('?m=map(nope)', { strict: true })).toThrow(
+					expect.objectContaining({ issues: [{ key: 'm', message: 'invalid map payload', offset: 3, segment: 'map(nope)' }] })
+				);
+			});
+
+			it('should report conflicting paths', () => {
+				expect(() => qs.parse('?a=1&a.b=2', { strict: true })).toThrow(
+					expect.objectContaining({ issues: [{ key: 'a.b', message: 'conflicts with an earlier key', offset: 5, segment: 'a.b' }] })
+				);
+				expect(() => qs.parse('?a.b=1&a=2', { strict: true })).toThrow(QsParseError);
+				expect(qs.parse('?a[]=1&a[]=2&b=1&b=2', { strict: true })).toEqual({ a: [1, 2], b: 2 });
+			});
+
+			it('should report exceeded limits and unsafe keys', () => {
+				const exceeded: any[] = [];
+
+				expect(() => qs.parse('?a=1&b=2&c=3', { parameterLimit: 2, strict: true })).toThrow(
+					expect.objectContaining({ issues: [{ key: '', message: 'exceeds parameterLimit', offset: null, segment: '3' }] })
+				);
+				expect(() => qs.parse('?__proto__.x=1&a=1', { onLimit: limit => exceeded.push(limit), strict: true })).toThrow(
+					expect.objectContaining({ issues: [{ key: '__proto__.x', message: 'exceeds unsafeKey', offset: null, segment: '__proto__' }] })
+				);
+				expect(() => qs.parse('?a.b.c=1', { depth: 1, onLimit: 'throw', strict: true })).toThrow(QsParseError);
+				expect(exceeded).toEqual([{ key: '__proto__.x', limit: 'unsafeKey', value: '__proto__' }]);
+			});
+
+			it('should describe issues in the message', () => {
+				expect(() => qs.parse('?=x&a=%', { strict: true })).toThrow(
+					'Invalid query string: empty key at 1, malformed percent escape in value at 6'
+				);
+				expect(() => qs.parse('?a.b.c=1', { depth: 1, strict: true })).toThrow('Invalid query string: exceeds depth');
+			});
+
+			it('should keep the lenient behaviour by default', () => {
+				expect(qs.parse('?a=%&=x&m=map(nope)')).toEqual({ a: '%', m: 'map(nope)' });
+			});
+		});
+
+		describe('bareKeys option', () => {
+			it('should parse keys without a value as empty strings by default', () => {
+				expect(qs.parse('?debug&q=')).toEqual({ debug: '', q: '' });
+			});
+
+			it('should parse keys without a value as flags', () => {
+				expect(qs.parse('?debug&q=&tags[]&tags[]=a', { bareKeys: 'true' })).toEqual({ debug: true, q: '', tags: [true, 'a'] });
+			});
+
+			it('should parse keys without a value as null', () => {
+				expect(qs.parse('?status&q=', { bareKeys: 'null' })).toEqual({ status: null, q: '' });
+			});
+
+			it('should read flags into boolean schema nodes', () => {
+				const schema = { debug: qs.schema.optional(qs.schema.boolean()) };
+
+				expect(qs.parse('?debug', { bareKeys: 'true', schema })).toEqual({ debug: true });
+			});
+		});
+
+		describe('nullValue option', () => {
+			it('should parse the sentinel as null', () => {
+				expect(qs.parse('?status=~&owner=me&filters.tag=~', { nullValue: '~' })).toEqual({
+					filters: { tag: null },
+					owner: 'me',
+					status: null
+				});
+			});
+
+			it('should compare the decoded value', () => {
+				expect(qs.parse('?a=%E2%88%85&b=%25', { nullValue: '∅' })).toEqual({ a: null, b: '%' });
+			});
+
+			it('should read null as absent with a schema', () => {
+				const schema = { page: qs.schema.default(qs.schema.number(), 1), status: qs.schema.optional(qs.schema.string()) };
+
+				expect(qs.parse('?status=~&page=~', { nullValue: '~', schema })).toEqual({ page: 1 });
+			});
+		});
+
+		describe('duplicates option', () => {
+			it('should keep the last value by default', () => {
+				expect(qs.parse('?a=1&a=2')).toEqual({ a: 2 });
+			});
+
+			it('should keep the first value', () => {
+				expect(qs.parse('?a=1&a=2&b.c=x&b.c=y', { duplicates: 'first' })).toEqual({ a: 1, b: { c: 'x' } });
+			});
+
+			it('should combine values', () => {
+				expect(qs.parse('?a=1&a=2&a=3&b[]=x&b=y', { duplicates: 'combine' })).toEqual({ a: [1, 2, 3], b: ['x', 'y'] });
+			});
+
+			it('should combine values by default under the repeat format', () => {
+				expect(qs.parse('?a=1&a=2', { arrayFormat: 'repeat' })).toEqual({ a: [1, 2] });
+				expect(qs.parse('?a=1&a=2', { arrayFormat: 'repeat', duplicates: 'last' })).toEqual({ a: 2 });
+			});
+
+			it('should throw on duplicates', () => {
+				expect(() => qs.parse('?a=1&b=2&a=3', { duplicates: 'error' })).toThrow(
+					expect.objectContaining({ issues: [{ key: 'a', message: 'duplicate key', offset: 9, segment: 'a' }] })
+				);
+				expect(qs.safeParse('?a=1&a=2', { duplicates: 'error' })).toEqual({
+					data: null,
+					issues: [{ key: 'a', message: 'duplicate key', offset: 5, segment: 'a' }]
+				});
+			});
+		});
+
+		describe('pathConflicts option', () => {
+			it('should let the last key win by default', () => {
+				expect(qs.parse('?a=1&a.b=2')).toEqual({ a: { b: 2 } });
+				expect(qs.parse('?a.b=2&a=1')).toEqual({ a: 1 });
+			});
+
+			it('should let the first key win', () => {
+				expect(qs.parse('?a=1&a.b=2', { pathConflicts: 'first' })).toEqual({ a: 1 });
+				expect(qs.parse('?a.b=2&a=1', { pathConflicts: 'first' })).toEqual({ a: { b: 2 } });
+			});
+
+			it('should let nested paths win in any order', () => {
+				expect(qs.parse('?a=1&a.b=2', { pathConflicts: 'nested' })).toEqual({ a: { b: 2 } });
+				expect(qs.parse('?a.b=2&a=1', { pathConflicts: 'nested' })).toEqual({ a: { b: 2 } });
+			});
+
+			it('should let scalars win in any order', () => {
+				expect(qs.parse('?a=1&a.b=2&c[0]=x&c=y', { pathConflicts: 'scalar' })).toEqual({ a: 1, c: 'y' });
+				expect(qs.parse('?a.b=2&a=1&c=y&c[0]=x', { pathConflicts: 'scalar' })).toEqual({ a: 1, c: 'y' });
+			});
+
+			it('should throw on conflicts', () => {
+				expect(() => qs.parse('?a=1&a.b=2', { pathConflicts: 'error' })).toThrow(
+					'Invalid query string: conflicts with an earlier key at 5'
+				);
+				expect(() => qs.parse('?a[0]=x&a.b=y', { pathConflicts: 'error' })).toThrow(
+					'Invalid query string: conflicts with an earlier key at 8'
+				);
+			});
+
+			it('should resolve arrays meeting object keys', () => {
+				const conflicts: any[] = [];
+
+				expect(qs.parse('?a[0]=x&a.b=y', { onConflict: (...args) => conflicts.push(args) })).toEqual({ a: { b: 'y' } });
+				expect(qs.parse('?a.b=y&a[0]=x')).toEqual({ a: ['x'] });
+				expect(qs.parse('?a[0]=x&a.b=y', { pathConflicts: 'first' })).toEqual({ a: ['x'] });
+				expect(qs.parse('?a[0]=x&a.b=y', { pathConflicts: 'nested' })).toEqual({ a: { '0': 'x', b: 'y' } });
+				expect(qs.parse('?a.b=y&a[0]=x', { pathConflicts: 'scalar' })).toEqual({ a: { '0': 'x', b: 'y' } });
+				expect(conflicts).toEqual([['a', ['x'], { b: 'y' }]]);
+			});
+		});
+
+		describe('onConflict option', () => {
+			it('should report every conflict', () => {
+				const conflicts: any[] = [];
+				const result = qs.parse('?a=1&a=2&b=1&b.c.d=2&e.f=1&e=2&g=1&g[1]=2', {
+					duplicates: 'first',
+					onConflict: (...args) => conflicts.push(args)
+				});
+
+				expect(result).toEqual({ a: 1, b: { c: { d: 2 } }, e: 2, g: [undefined, 2] });
+				expect(conflicts).toEqual([
+					['a', 1, 2],
+					['b', 1, { c: { d: 2 } }],
+					['e', { f: 1 }, 2],
+					['g', 1, [undefined, 2]]
+				]);
+			});
+
+			it('should report the path of nested conflicts', () => {
+				const conflicts: any[] = [];
+
+				qs.parse('?users[0].name=a&users[0].name=b', { onConflict: (...args) => conflicts.push(args) });
+
+				expect(conflicts).toEqual([['users[0].name', 'a', 'b']]);
+			});
+		});
+
+		describe('mode option', () => {
+			it('should decode form bodies like URLSearchParams', () => {
+				const body = 'name=Jos%C3%A9+%E2%9C%93&note=a%2Bb+c&empty=';
+
+				expect(qs.parse(body, { mode: 'form' })).toEqual(Object.fromEntries(new URLSearchParams(body)));
+			});
+
+			it('should decode whole keys before splitting them', () => {
+				expect(qs.parse('user%5Bname%5D=John&user%5Btags%5D%5B0%5D=a', { mode: 'form', nesting: 'brackets' })).toEqual({
+					user: { name: 'John', tags: ['a'] }
+				});
+			});
+
+			it('should decode iso-8859-1 bytes and numeric references', () => {
+				expect(qs.parse('name=Jos%E9+%26%2310003%3B', { charset: 'iso-8859-1', mode: 'form' })).toEqual({ name: 'José ✓' });
+			});
+
+			it('should read decoded entries in the same charset', () => {
+				const params = new URLSearchParams({ a: 'é ✓', 'b+c': '1+1' });
+				const form = new FormData();
+
+				form.append('name', 'José');
+
+				expect(qs.parse(params, { charset: 'iso-8859-1', mode: 'form' })).toEqual({ a: 'é ✓', 'b+c': '1+1' });
+				expect(qs.parse(params, { mode: 'form' })).toEqual({ a: 'é ✓', 'b+c': '1+1' });
+				expect(qs.parse(form, { charset: 'iso-8859-1', mode: 'form' })).toEqual({ name: 'José' });
+			});
+
+			it('should detect the charset from the sentinel and drop it', () => {
+				expect(qs.parse('utf8=%26%2310003%3B&name=Jos%E9', { charset: 'utf-8', charsetSentinel: true, mode: 'form' })).toEqual({
+					name: 'José'
+				});
+				expect(qs.parse('utf8=%E2%9C%93&name=Jos%C3%A9', { charset: 'iso-8859-1', charsetSentinel: true, mode: 'form' })).toEqual({
+					name: 'José'
+				});
+				expect(qs.parse('utf8=%E2%9C%93&name=Jos%C3%A9', { mode: 'form' })).toEqual({ name: 'José', utf8: '✓' });
+			});
+		});
+
+		describe('safeParse', () => {
+			it('should return data and no issues for clean input', () => {
+				expect(qs.safeParse('?a=1')).toEqual({ data: { a: 1 }, issues: [] });
+			});
+
+			it('should return best-effort data with issues', () => {
+				expect(qs.safeParse('?a=%&=x&b=2', { strict: true })).toEqual({
+					data: { a: '%', b: 2 },
+					issues: [
+						{ key: 'a', message: 'malformed percent escape in value', offset: 3, segment: '%' },
+						{ key: '', message: 'empty key', offset: 5, segment: '=x' }
+					]
+				});
+			});
+
+			it('should report limits instead of throwing', () => {
+				expect(qs.safeParse('?a=1&b=2&c=3', { onLimit: 'throw', parameterLimit: 2 })).toEqual({
+					data: { a: 1, b: 2 },
+					issues: [{ key: '', message: 'exceeds parameterLimit', offset: null, segment: '3' }]
+				});
+			});
+
+			it('should report schema issues without data', () => {
+				const schema = { page: qs.schema.number(), q: qs.schema.string() };
+
+				expect(qs.safeParse('?page=x', { schema })).toEqual({
+					data: null,
+					issues: [
+						{ key: 'page', message: 'expected number', offset: null, segment: 'x' },
+						{ key: 'q', message: 'is required', offset: null, segment: '' }
+					]
+				});
+			});
+
+			it('should report keys missing from a strict keyMap', () => {
+				expect(qs.safeParse('?x=1', { keyMap: { a: 'b' }, strictKeyMap: true })).toEqual({
+					data: null,
+					issues: [{ key: 'x', message: 'is not in keyMap', offset: null, segment: 'x' }]
+				});
+			});
+		});
+
 		describe('kebab-case', () => {
 			it('should parse kebab-case keys to camelCase', () => {
 				const options = { case: 'kebab-case' as const };
@@ -275,34 +852,419 @@ describe('/index', () => {
 				});
 			});
 		});
-	});
 
-	describe('stringify', () => {
-		describe('basic stringification', () => {
-			it('should stringify simple objects', () => {
-				expect(qs.stringify({ a: 'b', c: 'd' })).toEqual('?a=b&c=d');
+		describe('arrayFormat option', () => {
+			it('should parse brackets arrays', () => {
+				expect(qs.parse('?a[]=1&a[]=2&b[]=x', { arrayFormat: 'brackets' })).toEqual({ a: [1, 2], b: ['x'] });
 			});
 
-			it('should stringify simple objects wthout queryPrefix', () => {
-				expect(qs.stringify({ a: 'b', c: 'd' }, { addQueryPrefix: false })).toEqual('a=b&c=d');
+			it('should parse repeated keys as arrays', () => {
+				expect(qs.parse('?a=1&a=2&a=3&b=x', { arrayFormat: 'repeat' })).toEqual({ a: [1, 2, 3], b: 'x' });
 			});
 
-			it('should handle empty and null values', () => {
-				const input = {
-					empty: '',
-					null: null,
-					undefined: undefined,
-					emptyArray: [],
-					emptyObject: {}
-				};
-				expect(qs.stringify(input)).toEqual('');
+			it('should keep the last repeated key without repeat format', () => {
+				expect(qs.parse('?a=1&a=2')).toEqual({ a: 2 });
 			});
 
-			it('should handle special characters', () => {
-				const input = { special: '!@#$%^&*()_+' };
-				const result = qs.stringify(input);
+			it('should parse comma separated values', () => {
+				expect(qs.parse('?a=1,2&b=x%2Cy,z&c=x', { arrayFormat: 'comma' })).toEqual({ a: [1, 2], b: ['x,y', 'z'], c: 'x' });
+			});
 
-				expect(qs.parse(result)).toEqual(input);
+			it('should parse custom separators', () => {
+				expect(qs.parse('?a=1|2', { arrayFormat: 'comma', arrayFormatSeparator: '|' })).toEqual({ a: [1, 2] });
+			});
+
+			it('should parse single-element arrays under each format', () => {
+				expect(qs.parse('?a[0]=x', { arrayFormat: 'indices' })).toEqual({ a: ['x'] });
+				expect(qs.parse('?a[]=x', { arrayFormat: 'brackets' })).toEqual({ a: ['x'] });
+				expect(qs.parse('?a[]=x', { arrayFormat: 'repeat' })).toEqual({ a: ['x'] });
+				expect(qs.parse('?a[]=x', { arrayFormat: 'comma' })).toEqual({ a: ['x'] });
+			});
+
+			it('should parse mixed inputs', () => {
+				expect(qs.parse('?a=1&a[]=2&a=3', { arrayFormat: 'repeat' })).toEqual({ a: [1, 2, 3] });
+				expect(qs.parse('?a[]=1,2&a[]=3', { arrayFormat: 'comma' })).toEqual({ a: [1, 2, 3] });
+				expect(qs.parse('?user.tags[]=a&user.tags[]=b&user.name=John')).toEqual({ user: { name: 'John', tags: ['a', 'b'] } });
+			});
+		});
+
+		describe('safe mode', () => {
+			it('should neutralise prototype pollution keys', () => {
+				const result = qs.parse('?__proto__.polluted=1&constructor.prototype.polluted=1&a.__proto__.polluted=1&b.prototype=1&name=John');
+
+				expect(result).toEqual({ name: 'John' });
+				expect(({} as any).polluted).toBeUndefined();
+			});
+
+			it('should drop params deeper than depth', () => {
+				expect(qs.parse('?a.b.c=1&a.d=2', { depth: 1 })).toEqual({ a: { d: 2 } });
+			});
+
+			it('should turn arrays with indices above arrayLimit into objects', () => {
+				expect(qs.parse('?a[999999999]=x&b[1]=y', { arrayLimit: 10 })).toEqual({ a: { '999999999': 'x' }, b: [undefined, 'y'] });
+				expect(qs.parse('?a[0]=x&a[5000]=y')).toEqual({ a: { '0': 'x', '5000': 'y' } });
+				expect(qs.parse('?a[5000]=y&a[0]=x')).toEqual({ a: { '0': 'x', '5000': 'y' } });
+			});
+
+			it('should truncate params above parameterLimit', () => {
+				expect(qs.parse('?a=1&b=2&c=3', { parameterLimit: 2 })).toEqual({ a: 1, b: 2 });
+			});
+
+			it('should truncate input above maxLength', () => {
+				expect(qs.parse('?a=1&b=2&c=3', { maxLength: 7 })).toEqual({ a: 1, b: 2 });
+				expect(qs.parse('?aaa=1&bbb=2', { maxLength: 9 })).toEqual({ aaa: 1 });
+				expect(qs.parse('?q=abcdef', { maxLength: 5 })).toEqual({});
+			});
+
+			it('should throw when onLimit is throw', () => {
+				try {
+					qs.parse('?a[5000]=x', { onLimit: 'throw' });
+					throw new Error('Expected error');
+				} catch (err) {
+					expect(err).toBeInstanceOf(QsLimitError);
+					expect(err).toMatchObject({
+						key: 'a[5000]',
+						limit: 'arrayLimit',
+						message: 'Query string exceeds arrayLimit at a[5000]: 5000',
+						value: 5000
+					});
+				}
+			});
+
+			it('should report each exceeded limit when onLimit is a function', () => {
+				const exceeded: any[] = [];
+				const result = qs.parse('?__proto__.x=1&a.b.c=1&d=1&e=1', {
+					depth: 1,
+					onLimit: limit => exceeded.push(limit),
+					parameterLimit: 3
+				});
+
+				expect(result).toEqual({ d: 1 });
+				expect(exceeded).toEqual([
+					{ limit: 'parameterLimit', value: 4 },
+					{ key: '__proto__.x', limit: 'unsafeKey', value: '__proto__' },
+					{ key: 'a.b.c', limit: 'depth', value: 2 }
+				]);
+			});
+
+			it('should not enforce default limits when safe is false', () => {
+				expect(qs.parse('?a.b.c=1', { depth: 1, safe: false })).toEqual({});
+				expect(qs.parse('?a[1001]=x', { safe: false }).a).toHaveLength(1002);
+			});
+		});
+
+		describe('codecs option', () => {
+			it('should only decode Map and Set by default', () => {
+				expect(qs.parse('?date=date(2023-01-01T00:00:00.000Z)&map=map([["a",1]])')).toEqual({
+					date: 'date(2023-01-01T00:00:00.000Z)',
+					map: new Map([['a', 1]])
+				});
+			});
+
+			it('should decode built-in codecs', () => {
+				const options = {
+					codecs: [qs.codecs.bigint, qs.codecs.date, qs.codecs.regexp, qs.codecs.url]
+				};
+
+				expect(
+					qs.parse(
+						`?big=bigint(9007199254740993)&date=date(2023-01-01T00:00:00.000Z)&regexp=regexp(/a+b/gi)&url=url(${encodeURIComponent('https://example.com/?a=1&b=2')})`,
+						options
+					)
+				).toEqual({
+					big: 9007199254740993n,
+					date: new Date('2023-01-01T00:00:00.000Z'),
+					regexp: /a+b/gi,
+					url: new URL('https://example.com/?a=1&b=2')
+				});
+			});
+
+			it('should keep values that fail to decode', () => {
+				expect(qs.parse('?date=date(never)&map=map(invalid)', { codecs: [qs.codecs.date, qs.codecs.map] })).toEqual({
+					date: 'date(never)',
+					map: 'map(invalid)'
+				});
+			});
+		});
+
+		describe('schema option', () => {
+			const schema = {
+				active: qs.schema.boolean(),
+				createdAt: qs.schema.date(),
+				id: qs.schema.string(),
+				page: qs.schema.default(qs.schema.number(), 1),
+				sort: qs.schema.optional(qs.schema.enum(['asc', 'desc'])),
+				tags: qs.schema.array(qs.schema.string()),
+				user: qs.schema.object({
+					age: qs.schema.number(),
+					name: qs.schema.string()
+				}),
+				zip: qs.schema.string()
+			};
+
+			it('should coerce values to the schema types', () => {
+				const input =
+					'?active=true&createdAt=2023-01-01T00:00:00.000Z&id=123&tags[0]=1&tags[1]=true&user.age=25&user.name=true&zip=01234&extra=1';
+
+				expect(qs.parse(input, { schema })).toEqual({
+					active: true,
+					createdAt: new Date('2023-01-01T00:00:00.000Z'),
+					id: '123',
+					page: 1,
+					tags: ['1', 'true'],
+					user: {
+						age: 25,
+						name: 'true'
+					},
+					zip: '01234'
+				});
+			});
+
+			it('should wrap single values into arrays', () => {
+				expect(
+					qs.parse('?tags=a', {
+						schema: { tags: qs.schema.array(qs.schema.string()) }
+					})
+				).toEqual({ tags: ['a'] });
+			});
+
+			it('should apply case options before matching the schema', () => {
+				const options = {
+					case: 'snake_case' as const,
+					schema: { firstName: qs.schema.string() }
+				};
+
+				expect(qs.parse('?first_name=123', options)).toEqual({ firstName: '123' });
+			});
+
+			it('should report values that do not fit the schema', () => {
+				const input = '?active=yes&createdAt=never&id=1&page=abc&sort=up&tags[0]=a&user.age=old&user.name=John';
+
+				try {
+					qs.parse(input, { schema });
+					throw new Error('Expected error');
+				} catch (err) {
+					expect(err).toBeInstanceOf(QsSchemaError);
+					expect((err as QsSchemaError).issues).toEqual([
+						{ message: 'expected boolean', path: 'active', value: 'yes' },
+						{ message: 'expected date', path: 'createdAt', value: 'never' },
+						{ message: 'expected number', path: 'page', value: 'abc' },
+						{ message: 'expected one of asc, desc', path: 'sort', value: 'up' },
+						{ message: 'expected number', path: 'user.age', value: 'old' },
+						{ message: 'is required', path: 'zip', value: undefined }
+					]);
+				}
+			});
+
+			it('should only read ISO dates and plain decimal numbers', () => {
+				const schema = { d: qs.schema.optional(qs.schema.date()), n: qs.schema.optional(qs.schema.number()) };
+				const issues = (input: string) => {
+					try {
+						qs.parse(input, { schema });
+
+						return [];
+					} catch (err) {
+						return (err as QsSchemaError).issues;
+					}
+				};
+
+				expect(issues('?d=1&n=0x10')).toEqual([
+					{ message: 'expected date', path: 'd', value: '1' },
+					{ message: 'expected number', path: 'n', value: '0x10' }
+				]);
+				expect(issues('?d=2024-02-30&n=%201')).toEqual([
+					{ message: 'expected date', path: 'd', value: '2024-02-30' },
+					{ message: 'expected number', path: 'n', value: ' 1' }
+				]);
+				expect(issues('?d=Jan%201%202024&n=Infinity')).toHaveLength(2);
+				expect(qs.parse('?d=2024-02-29&n=-1.5e3', { schema })).toEqual({ d: new Date('2024-02-29'), n: -1500 });
+				expect(qs.parse('?d=2024-02-29T10:30:00%2B02:00&n=.5', { schema })).toEqual({ d: new Date('2024-02-29T08:30:00Z'), n: 0.5 });
+			});
+
+			it('should report nested paths inside arrays', () => {
+				const options = {
+					schema: {
+						items: qs.schema.array(qs.schema.object({ id: qs.schema.number() }))
+					}
+				};
+
+				expect(() => qs.parse('?items[0].id=1&items[1].id=x', options)).toThrow('Invalid query string: items[1].id expected number');
+			});
+		});
+	});
+
+	describe('stringify', () => {
+		describe('basic stringification', () => {
+			it('should stringify simple objects', () => {
+				expect(qs.stringify({ a: 'b', c: 'd' })).toEqual('?a=b&c=d');
+			});
+
+			it('should stringify simple objects wthout queryPrefix', () => {
+				expect(qs.stringify({ a: 'b', c: 'd' }, { addQueryPrefix: false })).toEqual('a=b&c=d');
+			});
+
+			it('should handle empty and null values', () => {
+				const input = {
+					empty: '',
+					null: null,
+					undefined: undefined,
+					emptyArray: [],
+					emptyObject: {}
+				};
+				expect(qs.stringify(input)).toEqual('');
+			});
+
+			it('should handle special characters', () => {
+				const input = { special: '!@#$%^&*()_+' };
+				const result = qs.stringify(input);
+
+				expect(qs.parse(result)).toEqual(input);
+			});
+		});
+
+		describe('sort option', () => {
+			const input = {
+				b: 1,
+				a: { d: [3, 1, 2], c: 'x' },
+				10: 'ten',
+				2: 'two'
+			};
+
+			it('should keep insertion order by default', () => {
+				expect(qs.stringify({ b: 1, a: 2 })).toEqual('?b=1&a=2');
+			});
+
+			it('should sort keys at every level, keeping array indices', () => {
+				expect(qs.stringify(input, { sort: true })).toEqual('?10=ten&2=two&a.c=x&a.d[0]=3&a.d[1]=1&a.d[2]=2&b=1');
+			});
+
+			it('should sort keys with a comparator', () => {
+				expect(qs.stringify(input, { sort: (a, b) => b.localeCompare(a) })).toEqual('?b=1&a.d[0]=3&a.d[1]=1&a.d[2]=2&a.c=x&2=two&10=ten');
+			});
+		});
+
+		describe('encoding', () => {
+			const input = {
+				'first name': 'John Doe',
+				q: 'a+b%c?d&e=f#g',
+				city: 'São Paulo'
+			};
+
+			it('should percent-encode keys and values', () => {
+				expect(qs.stringify(input)).toEqual('?first%20name=John%20Doe&q=a%2Bb%25c?d%26e%3Df%23g&city=S%C3%A3o%20Paulo');
+			});
+
+			it('should keep structural key characters readable', () => {
+				expect(qs.stringify({ 'a b': [{ 'c&d': 1 }] })).toEqual('?a%20b[0].c%26d=1');
+				expect(qs.stringify({ 'a b': { 'c&d': 1 } }, { nesting: 'brackets' })).toEqual('?a%20b[c%26d]=1');
+			});
+
+			it('should write spaces as plus signs with RFC1738 format', () => {
+				expect(qs.stringify(input, { format: 'RFC1738' })).toEqual('?first+name=John+Doe&q=a%2Bb%25c?d%26e%3Df%23g&city=S%C3%A3o+Paulo');
+			});
+
+			it('should encode values only', () => {
+				expect(qs.stringify(input, { encodeValuesOnly: true })).toEqual(
+					'?first name=John%20Doe&q=a%2Bb%25c?d%26e%3Df%23g&city=S%C3%A3o%20Paulo'
+				);
+			});
+
+			it('should use a custom encoder or none', () => {
+				const encode = (value: string, kind: 'key' | 'value') => (kind === 'key' ? value.toUpperCase() : encodeURIComponent(value));
+
+				expect(qs.stringify({ a: 'b c' }, { encode })).toEqual('?A=b%20c');
+				expect(qs.stringify({ 'a b': 'c d' }, { encode: false })).toEqual('?a b=c d');
+			});
+
+			it('should maintain round trips under each format', () => {
+				const formats = ['RFC3986', 'RFC1738'] as const;
+
+				formats.forEach(format => {
+					expect(qs.parse(qs.stringify(input, { format }), { format })).toEqual(input);
+				});
+			});
+		});
+
+		describe('output adapters', () => {
+			const input = {
+				userData: { firstName: 'John Doe', skills: ['js', 'ts'] }
+			};
+
+			it('should write into URLSearchParams', () => {
+				const params = qs.toSearchParams(input, { case: 'snake_case', prefix: 'f-' });
+
+				expect([...params]).toEqual([
+					['f-user_data.first_name', 'John Doe'],
+					['f-user_data.skills[0]', 'js'],
+					['f-user_data.skills[1]', 'ts']
+				]);
+				expect(qs.parse(params, { case: 'snake_case', prefix: 'f-' })).toEqual(input);
+			});
+
+			it('should replace written keys in an existing target', () => {
+				const params = new URLSearchParams('tags=old&other=1');
+
+				qs.toSearchParams({ tags: ['a', 'b'] }, { arrayFormat: 'repeat' }, params);
+
+				expect(params.toString()).toEqual('other=1&tags=a&tags=b');
+			});
+
+			it('should write into FormData', () => {
+				const formData = new FormData();
+
+				formData.append('other', '1');
+				qs.toFormData(input, {}, formData);
+
+				expect([...formData]).toEqual([
+					['other', '1'],
+					['userData.firstName', 'John Doe'],
+					['userData.skills[0]', 'js'],
+					['userData.skills[1]', 'ts']
+				]);
+			});
+
+			it('should return a new URL with its search replaced', () => {
+				const url = new URL('https://example.com/path?old=1#hash');
+				const result = qs.toUrl(url, input);
+
+				expect(result.href).toEqual(
+					'https://example.com/path?userData.firstName=John%20Doe&userData.skills[0]=js&userData.skills[1]=ts#hash'
+				);
+				expect(url.href).toEqual('https://example.com/path?old=1#hash');
+				expect(qs.toUrl('https://example.com/path?old=1', {}).href).toEqual('https://example.com/path');
+			});
+		});
+
+		describe('hash adapters', () => {
+			it('should write into a hash route, keeping its path', () => {
+				expect(qs.toHash('#/orders?status=closed&page=3', { page: 2, status: 'open' })).toEqual('#/orders?page=2&status=open');
+				expect(qs.toHash('#/orders', { userData: { firstName: 'John' } }, { case: 'snake_case' })).toEqual(
+					'#/orders?user_data.first_name=John'
+				);
+				expect(qs.toHash('https://example.com/app#/orders?page=3', {})).toEqual('#/orders');
+			});
+
+			it('should write the fragment as a query without a route', () => {
+				expect(qs.toHash('#top', { tab: 'info' })).toEqual('#tab=info');
+				expect(qs.toHash('', { tab: 'info' })).toEqual('#tab=info');
+				expect(qs.toHash('#tab=info', {})).toEqual('');
+			});
+
+			it('should return a new URL with its fragment replaced', () => {
+				const url = new URL('https://example.com/app?ref=mail#/orders?page=3');
+				const result = qs.toHashUrl(url, { page: 4 });
+
+				expect(result.href).toEqual('https://example.com/app?ref=mail#/orders?page=4');
+				expect(url.href).toEqual('https://example.com/app?ref=mail#/orders?page=3');
+				expect(qs.toHashUrl('https://example.com/app#page=3', {}).href).toEqual('https://example.com/app');
+			});
+
+			it('should round trip', () => {
+				const input = { filters: { status: ['open', 'paid'] }, page: 2 };
+				const options = { arrayFormat: 'brackets' as const, prefix: 'f-' };
+				const hash = qs.toHash('#/orders', input, options);
+
+				expect(qs.parseHash(hash, options)).toEqual(input);
 			});
 		});
 
@@ -363,6 +1325,8 @@ describe('/index', () => {
 					{ input: '?a=1&b=2' },
 					{ input: '?arr[0]=1&arr[1]=2' },
 					{ input: '?obj.a=1&obj.b=2' },
+					{ input: '?obj.0=1&obj.1=2' },
+					{ input: '?arr[0][0]=1&arr[0][1]=2&arr[1].a=3' },
 					{ input: '?param=value=with=equals' }
 				];
 
@@ -463,6 +1427,147 @@ describe('/index', () => {
 			});
 		});
 
+		describe('namespaces option', () => {
+			const namespaces = {
+				filters: { omitValues: [null, ''], prefix: 'f-' },
+				paging: 'p-',
+				table: { case: 'kebab-case' as const, prefix: 't-' }
+			};
+
+			it('should write each namespace with its own prefix, case and omit rules', () => {
+				const input = {
+					filters: { q: '', status: 'open' },
+					paging: { page: 2 },
+					rest: { utm: 'mail' },
+					table: { sortOrder: 'asc' }
+				};
+
+				expect(qs.stringify(input, { namespaces })).toEqual('?f-status=open&p-page=2&t-sort-order=asc&utm=mail');
+			});
+
+			it('should skip missing namespaces', () => {
+				expect(qs.stringify({ paging: { page: 2 } }, { namespaces })).toEqual('?p-page=2');
+				expect(qs.stringify({}, { namespaces })).toEqual('');
+			});
+
+			it('should round trip', () => {
+				const input = {
+					filters: { status: ['open', 'closed'] },
+					paging: { page: 2 },
+					rest: { ref: { id: 1 } },
+					table: { sortOrder: 'asc' }
+				};
+
+				expect(qs.parse(qs.stringify(input, { namespaces }), { namespaces })).toEqual(input);
+			});
+
+			it('should compact namespaced state', () => {
+				const input = { filters: { status: 'open' }, paging: { page: 2 } };
+				const result = qs.stringify(input, { compact: ['filters'], namespaces });
+
+				expect(result).toMatch(/^\?p-page=2&s=l\./);
+				expect(qs.parse(result, { compact: true, namespaces })).toEqual(input);
+			});
+		});
+
+		describe('keyMap option', () => {
+			const keyMap = {
+				filters: 'f',
+				'filters.status': 's',
+				'items.label': 'l',
+				page: 'p',
+				pageSize: 'sz',
+				query: 'q'
+			};
+
+			it('should write aliased keys', () => {
+				expect(qs.stringify({ query: 'shoes', page: 2, pageSize: 20, other: 1 }, { keyMap })).toEqual('?q=shoes&p=2&sz=20&other=1');
+			});
+
+			it('should write aliases at nested paths and inside arrays', () => {
+				const input = { filters: { status: 'open' }, items: [{ label: 'a' }, { label: 'b' }], status: 1 };
+
+				expect(qs.stringify(input, { keyMap })).toEqual('?f.s=open&items[0].l=a&items[1].l=b&status=1');
+			});
+
+			it('should apply aliases before case and prefix', () => {
+				expect(qs.stringify({ pageSize: 5, sortOrder: 'asc' }, { case: 'kebab-case', keyMap, prefix: 'api-' })).toEqual(
+					'?api-sz=5&api-sort-order=asc'
+				);
+			});
+
+			it('should round trip', () => {
+				const input = { filters: { status: ['open'] }, items: [{ label: 'a' }], page: 2 };
+
+				expect(qs.parse(qs.stringify(input, { keyMap }), { keyMap })).toEqual(input);
+			});
+
+			it('should round trip aliases changed by the case transform', () => {
+				const options = { case: 'snake_case' as const, keyMap: { pageSize: 'page_sz', user: 'user', 'user.firstName': 'fName' } };
+				const input = { pageSize: 10, user: { firstName: 'John' } };
+
+				expect(qs.stringify(input, options)).toEqual('?page_sz=10&user.f_name=John');
+				expect(qs.parse(qs.stringify(input, options), options)).toEqual(input);
+				expect(qs.parse('?page_sz=10&user.f_name=John', { ...options, strictKeyMap: true })).toEqual(input);
+			});
+
+			it('should reject unknown keys in strict mode', () => {
+				expect(() => qs.stringify({ query: 'a', items: [{ name: 'x' }] }, { keyMap, strictKeyMap: true })).toThrow(
+					new QsKeyMapError('items')
+				);
+			});
+		});
+
+		describe('defaults option', () => {
+			const defaults = {
+				filters: { status: ['open'], tags: new Set(['a']) },
+				page: 1,
+				since: new Date('2024-01-01T00:00:00.000Z'),
+				sort: 'asc'
+			};
+
+			it('should skip values equal to their defaults', () => {
+				const input = {
+					filters: { status: ['open'], tags: new Set(['a']) },
+					page: 1,
+					q: 'x',
+					since: new Date('2024-01-01T00:00:00.000Z'),
+					sort: 'desc'
+				};
+
+				expect(qs.stringify(input, { defaults })).toEqual('?q=x&sort=desc');
+			});
+
+			it('should write changed arrays, Maps and Sets whole', () => {
+				const input = { filters: { status: ['open', 'closed'], tags: new Set(['a', 'b']) } };
+
+				expect(qs.stringify(input, { defaults, encode: false })).toEqual(
+					'?filters.status[0]=open&filters.status[1]=closed&filters.tags=set(["a","b"])'
+				);
+			});
+
+			it('should write kept values', () => {
+				expect(qs.stringify({ page: qs.keep(1), sort: 'asc' }, { defaults })).toEqual('?page=1');
+				expect(qs.stringify({ filters: { status: qs.keep(['open']) } }, { defaults })).toEqual('?filters.status[0]=open');
+				expect(qs.stringify({ a: qs.keep(1), b: [qs.keep(1), { c: qs.keep('x') }] })).toEqual('?a=1&b[0]=1&b[1].c=x');
+				expect(qs.stringify({ a: qs.keep(new Date(0)) }, { schema: { a: qs.schema.date() } })).toEqual('?a=1970-01-01T00:00:00.000Z');
+				expect(qs.stringify({ a: qs.keep({ b: 1 }) }, { keyMap: { 'a.b': 'x' } })).toEqual('?a.x=1');
+			});
+
+			it('should round trip to the full object', () => {
+				const input = { ...defaults, page: 4 };
+
+				expect(qs.stringify(input, { defaults })).toEqual('?page=4');
+				expect(qs.parse(qs.stringify(input, { defaults }), { defaults })).toEqual(input);
+			});
+
+			it('should compare before schema serialization', () => {
+				const schema = { page: qs.schema.number(), since: qs.schema.date() };
+
+				expect(qs.stringify({ page: 1, since: new Date('2024-01-01T00:00:00.000Z') }, { defaults, schema })).toEqual('');
+			});
+		});
+
 		describe('kebab-case', () => {
 			it('should stringify to kebab-case', () => {
 				const options = { case: 'kebab-case' as const };
@@ -558,6 +1663,89 @@ describe('/index', () => {
 			});
 		});
 
+		describe('bareKeys option', () => {
+			it('should write true as bare keys', () => {
+				expect(qs.stringify({ debug: true, off: false, tags: [true, 'a'] }, { bareKeys: 'true' })).toEqual(
+					'?debug&off=false&tags[0]&tags[1]=a'
+				);
+			});
+
+			it('should write null as bare keys', () => {
+				expect(qs.stringify({ any: undefined, debug: true, status: null }, { bareKeys: 'null' })).toEqual('?debug=true&status');
+			});
+
+			it('should round trip', () => {
+				const input = { debug: true, filters: { owner: null, status: 'open' } };
+
+				expect(qs.parse(qs.stringify(input, { bareKeys: 'true' }), { bareKeys: 'true' })).toEqual({
+					debug: true,
+					filters: { status: 'open' }
+				});
+				expect(qs.parse(qs.stringify(input, { bareKeys: 'null' }), { bareKeys: 'null' })).toEqual({ debug: true, filters: input.filters });
+			});
+
+			it('should patch with bare keys', () => {
+				expect(qs.update('?a=1&b=2&c=3', { a: null, b: undefined, d: true }, { bareKeys: 'null' })).toEqual('?a&c=3&d=true');
+			});
+		});
+
+		describe('nullValue option', () => {
+			it('should write null as the sentinel', () => {
+				expect(qs.stringify({ owner: 'me', status: null, tag: undefined }, { nullValue: '~' })).toEqual('?owner=me&status=~');
+				expect(qs.stringify({ a: [null, 'x'] }, { nullValue: '∅' })).toEqual('?a[0]=%E2%88%85&a[1]=x');
+			});
+
+			it('should round trip', () => {
+				const input = { filters: { owner: null, status: 'open' }, page: 2 };
+
+				expect(qs.parse(qs.stringify(input, { nullValue: 'none' }), { nullValue: 'none' })).toEqual(input);
+			});
+
+			it('should leave null to omitValues when it is set', () => {
+				expect(qs.stringify({ a: null, b: 1 }, { nullValue: '~', omitValues: [null] })).toEqual('?b=1');
+			});
+		});
+
+		describe('mode option', () => {
+			it('should encode form bodies like URLSearchParams', () => {
+				const input = { 'a b': "x*y-z._~!'()", empty: '', name: 'José ✓ 💡', note: 'a+b c', surrogate: '\ud800' };
+
+				expect(qs.stringify(input, { mode: 'form' })).toEqual(new URLSearchParams(input).toString());
+			});
+
+			it('should encode brackets in keys', () => {
+				expect(qs.stringify({ user: { name: 'John', tags: ['a'] } }, { mode: 'form', nesting: 'brackets' })).toEqual(
+					'user%5Bname%5D=John&user%5Btags%5D%5B0%5D=a'
+				);
+			});
+
+			it('should not add a query prefix', () => {
+				expect(qs.stringify({ a: 1 }, { mode: 'form' })).toEqual('a=1');
+				expect(qs.stringify({ a: 1 }, { addQueryPrefix: true, mode: 'form' })).toEqual('?a=1');
+			});
+
+			it('should write numeric references outside iso-8859-1', () => {
+				expect(qs.stringify({ name: 'José ✓' }, { charset: 'iso-8859-1', mode: 'form' })).toEqual('name=Jos%E9+%26%2310003%3B');
+			});
+
+			it('should lead with the charset sentinel', () => {
+				expect(qs.stringify({ name: 'José' }, { charsetSentinel: true, mode: 'form' })).toEqual('utf8=%E2%9C%93&name=Jos%C3%A9');
+				expect(qs.stringify({ name: 'José' }, { charset: 'iso-8859-1', charsetSentinel: true, mode: 'form' })).toEqual(
+					'utf8=%26%2310003%3B&name=Jos%E9'
+				);
+			});
+
+			it('should round trip', () => {
+				const input = { filters: { status: ['open', 'paid'] }, q: 'a+b & c=d ✓' };
+
+				for (const charset of ['utf-8', 'iso-8859-1'] as const) {
+					const options = { charset, charsetSentinel: true, mode: 'form' as const, nesting: 'brackets' as const };
+
+					expect(qs.parse(qs.stringify(input, options), options)).toEqual(input);
+				}
+			});
+		});
+
 		describe('omitValues option', () => {
 			it('should omit default values (null, undefined, empty string)', () => {
 				const input = {
@@ -612,6 +1800,196 @@ describe('/index', () => {
 			});
 		});
 
+		describe('nesting option', () => {
+			const input = {
+				user: {
+					name: 'John',
+					address: { city: 'X' },
+					skills: [{ name: 'js' }]
+				}
+			};
+
+			it('should stringify bracket object keys', () => {
+				expect(qs.stringify(input, { nesting: 'brackets' })).toEqual('?user[name]=John&user[address][city]=X&user[skills][0][name]=js');
+			});
+
+			it('should apply prefix and case to every bracket segment', () => {
+				const options = { case: 'snake_case' as const, nesting: 'brackets' as const, prefix: 'f-' };
+				const input = { userData: { firstName: 'John', phoneNumbers: [{ countryCode: 1 }] } };
+
+				expect(qs.stringify(input, options)).toEqual('?f-user_data[first_name]=John&f-user_data[phone_numbers][0][country_code]=1');
+				expect(qs.parse(qs.stringify(input, options), options)).toEqual(input);
+			});
+
+			it('should maintain round trips with bracket nesting', () => {
+				expect(qs.parse(qs.stringify(input, { nesting: 'brackets' }), { nesting: 'brackets' })).toEqual(input);
+			});
+
+			it('should quote numeric object keys with bracket nesting', () => {
+				const input = { a: { '0': 'x', "'b'": 'y', '01': 'z' }, c: ['w'] };
+				const options = { case: 'snake_case' as const, nesting: 'brackets' as const };
+
+				expect(qs.stringify(input, options)).toEqual("?a['0']=x&a[''b'']=y&a[01]=z&c[0]=w");
+				expect(qs.parse(qs.stringify(input, options), options)).toEqual(input);
+				expect(qs.parse("?a['0']=x&a[0]=y", { nesting: 'brackets' })).toEqual({ a: { '0': 'y' } });
+			});
+		});
+
+		describe('arrayFormat option', () => {
+			const input = {
+				tags: ['a', 'b'],
+				ids: [1],
+				users: [{ name: 'John' }]
+			};
+
+			it('should stringify with indices by default', () => {
+				expect(qs.stringify(input)).toEqual('?tags[0]=a&tags[1]=b&ids[0]=1&users[0].name=John');
+			});
+
+			it('should stringify with brackets', () => {
+				expect(qs.stringify(input, { arrayFormat: 'brackets' })).toEqual('?tags[]=a&tags[]=b&ids[]=1&users[0].name=John');
+			});
+
+			it('should stringify with repeat', () => {
+				expect(qs.stringify(input, { arrayFormat: 'repeat' })).toEqual('?tags=a&tags=b&ids[]=1&users[0].name=John');
+			});
+
+			it('should stringify with comma', () => {
+				expect(qs.stringify(input, { arrayFormat: 'comma' })).toEqual('?tags=a,b&ids[]=1&users[0].name=John');
+			});
+
+			it('should encode separators inside comma items', () => {
+				expect(qs.stringify({ a: ['x,y', 'z'] }, { arrayFormat: 'comma' })).toEqual('?a=x%2Cy,z');
+				expect(qs.stringify({ a: ['x|y', 'z'] }, { arrayFormat: 'comma', arrayFormatSeparator: '|' })).toEqual('?a=x%7Cy|z');
+			});
+
+			it('should encode separators in scalars and single items under comma', () => {
+				const input = { a: 'x,y', b: ['x,y'], c: { d: 'x,y' } };
+
+				expect(qs.stringify(input, { arrayFormat: 'comma' })).toEqual('?a=x%2Cy&b[]=x%2Cy&c.d=x%2Cy');
+				expect(qs.parse(qs.stringify(input, { arrayFormat: 'comma' }), { arrayFormat: 'comma' })).toEqual(input);
+				expect(qs.stringify({ a: 'x,y' })).toEqual('?a=x,y');
+			});
+
+			it('should apply prefix and case to every format', () => {
+				const options = { arrayFormat: 'brackets' as const, case: 'kebab-case' as const, prefix: 'api-' };
+
+				expect(qs.stringify({ userTags: ['a', 'b'] }, options)).toEqual('?api-user-tags[]=a&api-user-tags[]=b');
+				expect(qs.parse('?api-user-tags[]=a&api-user-tags[]=b', options)).toEqual({ userTags: ['a', 'b'] });
+			});
+
+			it('should maintain round trips under each format', () => {
+				const formats = ['indices', 'brackets', 'repeat', 'comma'] as const;
+
+				formats.forEach(arrayFormat => {
+					expect(qs.parse(qs.stringify(input, { arrayFormat }), { arrayFormat })).toEqual(input);
+					expect(qs.parse(qs.stringify({ a: ['x,y', 'z|w'] }, { arrayFormat }), { arrayFormat })).toEqual({ a: ['x,y', 'z|w'] });
+				});
+			});
+		});
+
+		describe('codecs option', () => {
+			type Money = { amount: number; currency: string };
+
+			const money: QsCodec<Money> = {
+				decode: payload => {
+					const [amount, currency] = payload.split(' ');
+
+					return { amount: Number(amount), currency };
+				},
+				encode: value => `${value.amount} ${value.currency}`,
+				name: 'money',
+				test: value => isPlainObject(value) && 'amount' in value && 'currency' in value
+			};
+
+			it('should stringify built-in codecs', () => {
+				const options = {
+					codecs: [qs.codecs.bigint, qs.codecs.date, qs.codecs.regexp, qs.codecs.url]
+				};
+
+				expect(
+					qs.stringify(
+						{
+							big: 10n,
+							date: new Date('2023-01-01T00:00:00.000Z'),
+							regexp: /a+b/gi,
+							url: new URL('https://example.com/?a=1')
+						},
+						options
+					)
+				).toEqual('?big=bigint(10)&date=date(2023-01-01T00:00:00.000Z)&regexp=regexp(/a%2Bb/gi)&url=url(https://example.com/?a%3D1)');
+			});
+
+			it('should keep dates as ISO strings without the date codec', () => {
+				expect(qs.stringify({ date: new Date('2023-01-01T00:00:00.000Z') })).toEqual('?date=2023-01-01T00:00:00.000Z');
+			});
+
+			it('should round trip custom codecs at any depth', () => {
+				const options = { codecs: [money, qs.codecs.date, ...qs.defaultCodecs] };
+				const input = {
+					price: { amount: 10.5, currency: 'USD' },
+					items: [
+						{
+							createdAt: new Date('2023-01-01T00:00:00.000Z'),
+							prices: [{ amount: 1, currency: 'EUR' }],
+							tags: new Set(['a'])
+						}
+					]
+				};
+
+				expect(qs.stringify(input, options)).toEqual(
+					'?price=money(10.5%20USD)&items[0].createdAt=date(2023-01-01T00:00:00.000Z)&items[0].prices[0]=money(1%20EUR)&items[0].tags=set(%5B%22a%22%5D)'
+				);
+				expect(qs.parse(qs.stringify(input, options), options)).toEqual(input);
+			});
+
+			it('should use codecs for array items in any array format', () => {
+				const options = { arrayFormat: 'repeat' as const, codecs: [qs.codecs.date] };
+				const input = { dates: [new Date('2023-01-01T00:00:00.000Z'), new Date('2024-01-01T00:00:00.000Z')] };
+
+				expect(qs.parse(qs.stringify(input, options), options)).toEqual(input);
+			});
+		});
+
+		describe('schema option', () => {
+			const schema = {
+				createdAt: qs.schema.date(),
+				id: qs.schema.string(),
+				page: qs.schema.default(qs.schema.number(), 1),
+				sort: qs.schema.optional(qs.schema.enum(['asc', 'desc'])),
+				tags: qs.schema.array(qs.schema.string()),
+				zip: qs.schema.string()
+			};
+
+			it('should stringify only schema keys', () => {
+				const input = {
+					createdAt: new Date('2023-01-01T00:00:00.000Z'),
+					extra: 'value',
+					id: '123',
+					page: 2,
+					tags: ['true', '1'],
+					zip: '01234'
+				};
+
+				expect(qs.stringify(input, { schema })).toEqual(
+					'?createdAt=2023-01-01T00:00:00.000Z&id=123&page=2&tags[0]=true&tags[1]=1&zip=01234'
+				);
+			});
+
+			it('should maintain exact round trips', () => {
+				const input = {
+					createdAt: new Date('2023-01-01T00:00:00.000Z'),
+					id: '123',
+					page: 2,
+					sort: 'desc' as const,
+					tags: ['true', 'map([])'],
+					zip: '01234'
+				};
+
+				expect(qs.parse(qs.stringify(input, { schema }), { schema })).toEqual(input);
+			});
+		});
+
 		describe('Map and Set support', () => {
 			it('should stringify Map values', () => {
 				expect(
@@ -622,7 +2000,7 @@ describe('/index', () => {
 						]),
 						map1: new Map()
 					})
-				).toEqual('?map=map([["key1","value1"],["key2","value2"]])');
+				).toEqual('?map=map(%5B%5B%22key1%22,%22value1%22%5D,%5B%22key2%22,%22value2%22%5D%5D)');
 			});
 
 			it('should stringify Set values', () => {
@@ -631,8 +2009,333 @@ describe('/index', () => {
 						set: new Set(['value1', 'value2', 'value3']),
 						set1: new Set()
 					})
-				).toEqual('?set=set(["value1","value2","value3"])');
+				).toEqual('?set=set(%5B%22value1%22,%22value2%22,%22value3%22%5D)');
+			});
+		});
+	});
+
+	describe('update', () => {
+		it('should patch values in place, keeping order', () => {
+			expect(qs.update('?page=1&sort=asc&q=x', { sort: 'desc' })).toEqual('?page=1&sort=desc&q=x');
+		});
+
+		it('should deep-merge nested objects', () => {
+			const input = '?filters.status=open&filters.owner=me&page=2';
+
+			expect(qs.update(input, { filters: { owner: 'you', tags: ['a'] } })).toEqual(
+				'?filters.status=open&filters.owner=you&page=2&filters.tags[0]=a'
+			);
+		});
+
+		it('should replace arrays whole', () => {
+			expect(qs.update('?tags[0]=a&x=1&tags[1]=b', { tags: ['c'] })).toEqual('?tags[0]=c&x=1');
+		});
+
+		it('should remove keys set to undefined', () => {
+			expect(qs.update('?page=1&filters.a=1&filters.b=2&q=x', { filters: undefined, page: undefined })).toEqual('?q=x');
+			expect(qs.update('?page=1', { page: undefined })).toEqual('');
+		});
+
+		it('should replace conflicting scalar and nested paths', () => {
+			expect(qs.update('?user=x&page=1', { user: { name: 'John' } })).toEqual('?user.name=John&page=1');
+			expect(qs.update('?user.name=John&user.age=1&page=1', { user: 'x' })).toEqual('?user=x&page=1');
+		});
+
+		it('should keep foreign params untouched', () => {
+			const options = { case: 'kebab-case' as const, prefix: 'f-' };
+			const input = 'utm_source=News%20Letter&f-page-size=10&other.team=a+b&f-sort=asc';
+
+			expect(qs.update(input, { pageSize: 20 }, options)).toEqual('?utm_source=News%20Letter&f-page-size=20&other.team=a+b&f-sort=asc');
+		});
+
+		it('should respect omitValues', () => {
+			expect(qs.update('?q=x&page=2', { q: '' })).toEqual('?page=2');
+			expect(qs.update('?q=x&page=2', { page: 1 }, { omitValues: [1] })).toEqual('?q=x');
+		});
+
+		it('should respect addQueryPrefix and other inputs', () => {
+			expect(qs.update('', { a: 1 }, { addQueryPrefix: false })).toEqual('a=1');
+			expect(qs.update(new URL('https://example.com/?a=1&b=2'), { a: 3 })).toEqual('?a=3&b=2');
+		});
+
+		it('should drop patched values equal to their defaults', () => {
+			expect(qs.update('?page=2&q=x', { page: 1 }, { defaults: { page: 1 } })).toEqual('?q=x');
+		});
+
+		it('should patch aliased keys', () => {
+			const keyMap = { page: 'p', query: 'q' };
+
+			expect(qs.update('?q=a&p=2', { page: 3 }, { keyMap })).toEqual('?q=a&p=3');
+		});
+
+		it('should patch namespaces', () => {
+			const namespaces = { filters: 'f-', paging: 'p-' };
+
+			expect(qs.update('?f-status=open&p-page=2&utm=mail', { paging: { page: 3 }, rest: { utm: undefined } }, { namespaces })).toEqual(
+				'?f-status=open&p-page=3'
+			);
+		});
+	});
+
+	describe('get / set', () => {
+		type User = { pageSize: number; user: { name: string; skills: { level: number; name: string }[] } };
+
+		it('should read a value at a path', () => {
+			expect(qs.get<User>('?user.name=John&user.skills[0].name=ts', 'user.skills[0].name')).toEqual('ts');
+			expect(qs.get<User>('?user.name=John', 'user.skills[1].level')).toBeUndefined();
+			expect(qs.get('?page_size=10', 'pageSize', { case: 'snake_case' })).toEqual(10);
+		});
+
+		it('should write a value at a path, keeping other params', () => {
+			expect(qs.set<User>('?utm=mail&user.name=John&page_size=1', 'user.name', 'Jane')).toEqual('?utm=mail&user.name=Jane&page_size=1');
+			expect(qs.set<User>('?user.name=John', 'pageSize', 20, { case: 'snake_case' })).toEqual('?user.name=John&page_size=20');
+		});
+
+		it('should write array items', () => {
+			const str = '?user.skills[0].name=ts&user.skills[0].level=2&user.skills[1].name=go&utm=mail';
+
+			expect(qs.set<User>(str, 'user.skills[1].level', 3)).toEqual(
+				'?user.skills[0].name=ts&user.skills[0].level=2&user.skills[1].name=go&user.skills[1].level=3&utm=mail'
+			);
+			expect(qs.set('?tags[0]=a&tags[1]=b', 'tags[0]', 'c')).toEqual('?tags[0]=c&tags[1]=b');
+		});
+
+		it('should remove values set to undefined', () => {
+			expect(qs.set<User>('?user.name=John&pageSize=1', 'user.name', undefined)).toEqual('?pageSize=1');
+		});
+
+		it('should remove array items set to undefined', () => {
+			expect(qs.set('?a[0]=1&a[1]=2&a[2]=3', 'a[1]', undefined)).toEqual('?a[0]=1&a[1]=3');
+			expect(qs.parse(qs.set('?a[0]=1&a[1]=2', 'a[1]', undefined))).toEqual({ a: [1] });
+			expect(qs.set('?a[0]=1&b=2', 'a[0]', undefined)).toEqual('?b=2');
+			expect(qs.set('?a[0].b=1&a[0].c=2', 'a[0].b', undefined)).toEqual('?a[0].c=2');
+		});
+	});
+
+	describe('canonicalize', () => {
+		it('should rewrite equal query strings into one form', () => {
+			const a = '?sort=asc&filters.b=2&filters.a=1&tags[0]=x&tags[1]=y';
+			const b = 'tags[0]=x&filters.a=1&sort=asc&tags[1]=y&filters.b=2';
+
+			expect(qs.canonicalize(a)).toEqual('?filters.a=1&filters.b=2&sort=asc&tags[0]=x&tags[1]=y');
+			expect(qs.canonicalize(b)).toEqual(qs.canonicalize(a));
+		});
+
+		it('should normalise array formats and encoding', () => {
+			const options = { arrayFormat: 'repeat' as const };
+
+			expect(qs.canonicalize('?tags=y&q=a%20b&tags=x', options)).toEqual('?q=a%20b&tags=y&tags=x');
+			expect(qs.canonicalize('?b=1&a=2', { addQueryPrefix: false, sort: (a, b) => b.localeCompare(a) })).toEqual('b=1&a=2');
+		});
+	});
+
+	describe('equals', () => {
+		it('should compare query strings semantically', () => {
+			expect(qs.equals('?a=1&b.c=2', 'b.c=2&a=1')).toBe(true);
+			expect(qs.equals('?a=1', '?a=%31')).toBe(true);
+			expect(qs.equals('?a=1', '?a="1"')).toBe(false);
+			expect(qs.equals('?tags[0]=x&tags[1]=y', '?tags[0]=y&tags[1]=x')).toBe(false);
+		});
+
+		it('should apply parse options', () => {
+			const options = { case: 'kebab-case' as const, prefix: 'f-' };
+
+			expect(qs.equals('?f-page-size=10&other=1', '?f-page-size=10', options)).toBe(true);
+			expect(qs.equals('?tags=x,y', '?tags[0]=x&tags[1]=y', { arrayFormat: 'comma' })).toBe(true);
+		});
+	});
+
+	describe('sign / verify', () => {
+		const input = { file: 'report.pdf', user: { id: 1 } };
+		const secret = 'secret';
+
+		it('should append a signature and verify it', async () => {
+			const signed = await qs.sign(input, secret);
+
+			expect(signed).toMatch(/^\?file=report.pdf&user.id=1&sig=[\w-]+$/);
+			expect(await qs.verify(signed, secret)).toEqual({ data: input, ok: true });
+		});
+
+		it('should verify regardless of param order', async () => {
+			const signed = await qs.sign(input, secret);
+			const reordered = `?${signed.slice(1).split('&').reverse().join('&')}`;
+
+			expect(await qs.verify(reordered, secret)).toEqual({ data: input, ok: true });
+		});
+
+		it('should reject tampered params and wrong secrets', async () => {
+			const signed = await qs.sign(input, secret);
+
+			expect(await qs.verify(signed.replace('report.pdf', 'secret.pdf'), secret)).toEqual({ ok: false, reason: 'badSignature' });
+			expect(await qs.verify(`${signed}&extra=1`, secret)).toEqual({ ok: false, reason: 'badSignature' });
+			expect(await qs.verify(signed, 'other')).toEqual({ ok: false, reason: 'badSignature' });
+			expect(await qs.verify('?file=report.pdf&sig=%%%', secret)).toEqual({ ok: false, reason: 'badSignature' });
+		});
+
+		it('should report missing signatures', async () => {
+			expect(await qs.verify('?file=report.pdf', secret)).toEqual({ ok: false, reason: 'missing' });
+		});
+
+		it('should sign and check expiry', async () => {
+			const now = Date.UTC(2024, 0, 1);
+			const signed = await qs.sign(input, secret, { expiresIn: 60000, now: () => now });
+
+			expect(signed).toContain(`&exp=${now / 1000 + 60}&sig=`);
+			expect(await qs.verify(signed, secret, { now: () => now + 59000 })).toEqual({ data: input, ok: true });
+			expect(await qs.verify(signed, secret, { now: () => now + 60000 })).toEqual({ ok: false, reason: 'expired' });
+			expect(await qs.verify(signed.replace(`exp=${now / 1000 + 60}`, `exp=${now / 1000 + 120}`), secret, { now: () => now })).toEqual({
+				ok: false,
+				reason: 'badSignature'
+			});
+		});
+
+		it('should apply options and custom keys', async () => {
+			const options = {
+				algorithm: 'SHA-512' as const,
+				case: 'kebab-case' as const,
+				expiresAt: new Date('2100-01-01'),
+				expiresKey: 'e',
+				prefix: 'f-',
+				signatureKey: 's'
+			};
+
+			const signed = await qs.sign({ fileName: 'a' }, secret, options);
+
+			expect(signed).toMatch(/^\?f-file-name=a&e=4102444800&s=[\w-]+$/);
+			expect(await qs.verify(`?utm=1&${signed.slice(1)}`, secret, options)).toEqual({ data: { fileName: 'a' }, ok: true });
+		});
+
+		it('should reject params added to a signed string', async () => {
+			const signed = await qs.sign({ file: 'x.pdf' }, secret);
+
+			expect(await qs.verify(`${signed}&x=`, secret)).toEqual({ ok: false, reason: 'badSignature' });
+			expect(await qs.verify(`${signed}&x`, secret)).toEqual({ ok: false, reason: 'badSignature' });
+			expect(await qs.verify(`${signed}&file=x.pdf`, secret)).toEqual({ ok: false, reason: 'badSignature' });
+			expect(await qs.verify(`?sig=${signed.split('sig=')[1]}&file=x.pdf`, secret)).toEqual({ data: { file: 'x.pdf' }, ok: true });
+		});
+
+		it('should refuse keys reserved for the expiry and the signature', async () => {
+			await expect(qs.sign({ exp: 'x' }, secret)).rejects.toThrow("Key 'exp' is reserved by expiresKey");
+			await expect(qs.sign({ s: 'x' }, secret, { signatureKey: 's' })).rejects.toThrow("Key 's' is reserved by signatureKey");
+			expect(await qs.sign({ exp: 'x' }, secret, { prefix: 'f-' })).toMatch(/^\?f-exp=x&sig=/);
+		});
+	});
+
+	describe('compact', () => {
+		const state = {
+			filters: {
+				status: ['open', 'pending', 'closed'],
+				owner: 'João',
+				range: { from: '2024-01-01', to: '2024-12-31' }
+			},
+			layout: {
+				columns: Array.from({ length: 20 }, (_, index) => ({ id: `column${index}`, visible: index % 2 === 0, width: 100 }))
+			},
+			page: 2
+		};
+
+		it('should pack the whole object into a single param', () => {
+			const result = qs.stringify(state, { compact: true });
+
+			expect(result).toMatch(/^\?s=l\.[\w-]+$/);
+			expect(result.length).toBeLessThan(qs.stringify(state).length);
+			expect(qs.parse(result, { compact: true })).toEqual(state);
+		});
+
+		it('should pack chosen subtrees and merge them with regular params', () => {
+			const options = { compact: ['filters', 'layout.columns'], compactKey: 'state', prefix: 'f-' };
+			const result = qs.stringify(state, options);
+
+			expect(result).toMatch(/^\?f-page=2&state=l\.[\w-]+$/);
+			expect(qs.parse(`?other=1&${result.slice(1)}`, options)).toEqual(state);
+		});
+
+		it('should deflate with the async variants', async () => {
+			const result = await qs.stringifyAsync(state, { compact: true });
+
+			expect(result).toMatch(/^\?s=d\.[\w-]+$/);
+			expect(await qs.parseAsync(result, { compact: true })).toEqual(state);
+		});
+
+		it('should keep asynchronous payloads as regular params in parse', () => {
+			expect(qs.parse('?s=d.AAAA&a=1', { compact: true })).toEqual({ s: 'd.AAAA', a: 1 });
+			expect(qs.safeParse('?a=1&s=d.AAAA', { compact: true })).toEqual({
+				data: { a: 1, s: 'd.AAAA' },
+				issues: [{ key: 's', message: 'asynchronous compressor, use parseAsync', offset: 7, segment: 'd.AAAA' }]
 			});
+			expect(() => qs.parse('?s=d.AAAA', { compact: true, strict: true })).toThrow(QsParseError);
+		});
+
+		it('should read synchronous payloads with the async variants', async () => {
+			expect(await qs.parseAsync(qs.stringify(state, { compact: true }), { compact: true })).toEqual(state);
+			expect(await qs.parseAsync('?a=1', {})).toEqual({ a: 1 });
+			expect(await qs.stringifyAsync({ a: 1 })).toEqual('?a=1');
+		});
+
+		it('should refuse asynchronous compressors in stringify', () => {
+			expect(() => qs.stringify(state, { compact: true, compressor: qs.compressors.deflate })).toThrow(
+				'Compressor is asynchronous, use stringifyAsync'
+			);
+		});
+
+		it('should keep malformed payloads as regular params', () => {
+			expect(qs.parse('?s=x.abc&a=1', { compact: true })).toEqual({ s: 'x.abc', a: 1 });
+			expect(qs.parse('?s=l.%25%25&a=1', { compact: true })).toEqual({ s: 'l.%%', a: 1 });
+			expect(qs.parse('?s=l&a=1', { compact: true })).toEqual({ s: 'l', a: 1 });
+		});
+
+		it('should refuse keys reserved for the compact param', () => {
+			expect(() => qs.stringify({ a: 1, s: 'x' }, { compact: ['a'] })).toThrow("Key 's' is reserved by compactKey");
+			expect(() => qs.stringify({ a: 1, state: 'x' }, { compact: ['a'], compactKey: 'state' })).toThrow(
+				"Key 'state' is reserved by compactKey"
+			);
+			expect(qs.stringify({ s: 'x' }, { compact: ['a'] })).toEqual('?s=x');
+		});
+
+		it('should refuse to update compact params', () => {
+			const str = qs.stringify({ x: 1 }, { compact: true });
+
+			expect(() => qs.update(`${str}&y=1`, { y: 2 }, { compact: true })).toThrow('update cannot patch compact params');
+		});
+
+		it('should use custom compressors', () => {
+			const reverse: QsCompressor = {
+				compress: data => data.slice().reverse(),
+				decompress: data => data.slice().reverse(),
+				id: 'r'
+			};
+
+			const result = qs.stringify({ a: 1 }, { compact: true, compressor: reverse });
+
+			expect(result).toEqual('?s=r.MT1h');
+			expect(qs.parse(result, { compact: true, compressor: reverse })).toEqual({ a: 1 });
+		});
+
+		it('should stop inflating once the payload passes maxLength', async () => {
+			const input = { a: 'x'.repeat(200000) };
+			const data = new TextEncoder().encode(`a=${input.a}`);
+			const lzw = qs.stringify(input, { compact: true });
+			const deflate = await qs.stringifyAsync(input, { compact: true });
+
+			expect(qs.compressors.lzw.decompress(qs.compressors.lzw.compress(data) as Uint8Array, 1000)).toHaveLength(1001);
+			expect(await qs.compressors.deflate.decompress(await qs.compressors.deflate.compress(data), 1000)).toHaveLength(1001);
+			expect(() => qs.parse(lzw, { compact: true, maxLength: 1000, onLimit: 'throw' })).toThrow(QsLimitError);
+			await expect(qs.parseAsync(deflate, { compact: true, maxLength: 1000, onLimit: 'throw' })).rejects.toThrow(QsLimitError);
+			expect(qs.parse(lzw, { compact: true, maxLength: 1000 })).toEqual({});
+			expect(await qs.parseAsync(lzw, { compact: true, safe: false })).toEqual(input);
+		});
+
+		it('should round trip large LZW inputs past the dictionary limit', () => {
+			let seed = 1;
+			const data = Uint8Array.from({ length: 100000 }, () => {
+				seed = (seed * 16807) % 2147483647;
+
+				return seed % 256;
+			});
+
+			const result = qs.compressors.lzw.decompress(qs.compressors.lzw.compress(data) as Uint8Array) as Uint8Array;
+
+			expect(result.join(',')).toEqual(data.join(','));
 		});
 	});
 });
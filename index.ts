@@ -1,86 +1,750 @@
 import camelCase from 'lodash/camelCase';
+import cloneDeep from 'lodash/cloneDeep';
+import compact from 'lodash/compact';
 import endsWith from 'lodash/endsWith';
+import every from 'lodash/every';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
+import findIndex from 'lodash/findIndex';
 import first from 'lodash/first';
 import flattenDeep from 'lodash/flattenDeep';
+import forEach from 'lodash/forEach';
+import get from 'lodash/get';
+import has from 'lodash/has';
+import includes from 'lodash/includes';
+import initial from 'lodash/initial';
 import isArray from 'lodash/isArray';
+import isBoolean from 'lodash/isBoolean';
 import isDate from 'lodash/isDate';
 import isEmpty from 'lodash/isEmpty';
+import isEqual from 'lodash/isEqual';
 import isFunction from 'lodash/isFunction';
 import isMap from 'lodash/isMap';
 import isNil from 'lodash/isNil';
+import isNumber from 'lodash/isNumber';
 import isObject from 'lodash/isObject';
+import isPlainObject from 'lodash/isPlainObject';
+import isRegExp from 'lodash/isRegExp';
 import isSet from 'lodash/isSet';
+import isString from 'lodash/isString';
+import isUndefined from 'lodash/isUndefined';
 import kebabCase from 'lodash/kebabCase';
+import keys from 'lodash/keys';
+import last from 'lodash/last';
 import map from 'lodash/map';
+import max from 'lodash/max';
+import maxBy from 'lodash/maxBy';
+import noop from 'lodash/noop';
+import omit from 'lodash/omit';
+import pick from 'lodash/pick';
+import pullAt from 'lodash/pullAt';
+import range from 'lodash/range';
 import reduce from 'lodash/reduce';
 import set from 'lodash/set';
+import setWith from 'lodash/setWith';
 import size from 'lodash/size';
 import slice from 'lodash/slice';
 import snakeCase from 'lodash/snakeCase';
+import some from 'lodash/some';
 import startsWith from 'lodash/startsWith';
-import trim from 'lodash/trim';
-import trimStart from 'lodash/trimStart';
+import toPairs from 'lodash/toPairs';
+import toPath from 'lodash/toPath';
 
+type QsArrayFormat = 'indices' | 'brackets' | 'repeat' | 'comma';
+type QsBareKeys = 'empty' | 'true' | 'null';
 type QsCase = 'camelCase' | 'snake_case' | 'kebab-case';
-type QsOptions = {
+type QsCharset = 'utf-8' | 'iso-8859-1';
+type QsCompressor = {
+	compress: (data: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+	decompress: (data: Uint8Array, maxLength?: number) => Uint8Array | Promise<Uint8Array>;
+	id: string;
+};
+type QsDuplicates = 'last' | 'first' | 'combine' | 'error';
+type QsEncodeKind = 'key' | 'value';
+type QsFormat = 'RFC3986' | 'RFC1738';
+type QsInput = string | URL | URLSearchParams | FormData | Request;
+type QsCodec<T = any> = {
+	decode: (payload: string) => T;
+	encode: (value: T) => string;
+	name: string;
+	test: (value: any) => boolean;
+};
+type QsLimit = 'arrayLimit' | 'depth' | 'maxLength' | 'parameterLimit' | 'unsafeKey';
+type QsLimitExceeded = {
+	key?: string;
+	limit: QsLimit;
+	value: number | string;
+};
+type QsMode = 'query' | 'form';
+type QsNamespace =
+	| string
+	| {
+			case?: QsCase;
+			omitValues?: QsOptions['omitValues'];
+			prefix: string;
+			restoreCase?: QsCase | false;
+	  };
+type QsNesting = 'dots' | 'brackets';
+type QsPathConflicts = 'last' | 'first' | 'nested' | 'scalar' | 'error';
+// Array indices are numbers, so they stay apart from numeric object keys
+type QsPathSegment = string | number;
+type QsSparseArrays = 'compact' | 'preserve' | 'object';
+type QsOptions<S extends QsSchemaShape | undefined = QsSchemaShape | undefined> = {
 	addQueryPrefix?: boolean;
+	arrayFormat?: QsArrayFormat;
+	arrayFormatSeparator?: string;
+	arrayLimit?: number;
+	bareKeys?: QsBareKeys;
 	case?: QsCase;
+	charset?: QsCharset;
+	charsetSentinel?: boolean;
+	codecs?: QsCodec[];
+	compact?: boolean | string[];
+	compactKey?: string;
+	compressor?: QsCompressor;
+	decode?: (value: string, kind: QsEncodeKind) => string;
+	defaults?: Record<string, any>;
+	depth?: number;
+	duplicates?: QsDuplicates;
+	encode?: false | ((value: string, kind: QsEncodeKind) => string);
+	encodeValuesOnly?: boolean;
+	format?: QsFormat;
+	keyMap?: Record<string, string>;
+	maxLength?: number;
+	mode?: QsMode;
+	namespaces?: Record<string, QsNamespace>;
+	nesting?: QsNesting;
+	nullValue?: string;
 	omitValues?: any[] | ((value: any, key: string) => boolean);
+	onConflict?: (path: string, existing: any, incoming: any) => void;
+	onLimit?: 'truncate' | 'throw' | ((exceeded: QsLimitExceeded) => void);
+	parameterLimit?: number;
+	pathConflicts?: QsPathConflicts;
 	prefix?: string;
 	restoreCase?: QsCase | false;
+	safe?: boolean;
+	schema?: S;
+	sort?: boolean | ((a: string, b: string) => number);
+	sparseArrays?: QsSparseArrays;
+	strict?: boolean;
+	strictKeyMap?: boolean;
+};
+
+type QsSchemaNode =
+	| { type: 'string' }
+	| { type: 'number' }
+	| { type: 'boolean' }
+	| { type: 'date' }
+	| { type: 'enum'; values: readonly string[] }
+	| { type: 'array'; of: QsSchemaNode }
+	| { type: 'object'; shape: QsSchemaShape }
+	| { type: 'optional'; of: QsSchemaNode }
+	| { type: 'default'; of: QsSchemaNode; value: any };
+type QsSchemaShape = { [key: string]: QsSchemaNode };
+type QsParseIssue = {
+	key: string;
+	message: string;
+	offset: number | null;
+	segment: string;
+};
+type QsToken = { key: string; offset: number; pair: string; value: string };
+type QsSchemaIssue = {
+	message: string;
+	path: string;
+	value: any;
+};
+
+// The open node union would recurse forever, so it infers to unknown
+type QsInferNode<N> = QsSchemaNode extends N
+	? unknown
+	: N extends { type: 'string' }
+		? string
+		: N extends { type: 'number' }
+			? number
+			: N extends { type: 'boolean' }
+				? boolean
+				: N extends { type: 'date' }
+					? Date
+					: N extends { type: 'enum'; values: readonly (infer V)[] }
+						? V
+						: N extends { type: 'array'; of: infer O }
+							? QsInferNode<O>[]
+							: N extends { type: 'object'; shape: infer S extends QsSchemaShape }
+								? QsInferSchema<S>
+								: N extends { type: 'optional'; of: infer O }
+									? QsInferNode<O> | undefined
+									: N extends { type: 'default'; of: infer O }
+										? QsInferNode<O>
+										: never;
+type QsOptionalKeys<S extends QsSchemaShape> = { [K in keyof S]: S[K] extends { type: 'optional' } ? K : never }[keyof S];
+type QsInferSchema<S extends QsSchemaShape> = {
+	[K in Exclude<keyof S, QsOptionalKeys<S>>]: QsInferNode<S[K]>;
+} & {
+	[K in QsOptionalKeys<S>]?: QsInferNode<S[K]>;
+};
+type QsSignOptions = QsOptions & {
+	algorithm?: 'SHA-256' | 'SHA-384' | 'SHA-512';
+	expiresAt?: Date | number;
+	expiresIn?: number;
+	expiresKey?: string;
+	now?: () => number;
+	signatureKey?: string;
+	subtle?: SubtleCrypto;
+};
+type QsVerifyResult<T = Record<string, any>> = { data: T; ok: true } | { ok: false; reason: 'badSignature' | 'expired' | 'missing' };
+type QsParseResult<S> = S extends QsSchemaShape ? QsInferSchema<S> : Record<string, any>;
+// An explicit type argument wins over the schema's inferred type
+type QsParseOutput<T, S> = [T] extends [never] ? QsParseResult<S> : T;
+type QsSafeParseResult<T> = { data: T | null; issues: QsParseIssue[] };
+
+// Key paths in the dot and index notation keys are written in, such as `user.skills[0]`
+type QsLeafValue =
+	| bigint
+	| boolean
+	| Date
+	| Function
+	| Map<any, any>
+	| null
+	| number
+	| RegExp
+	| Set<any>
+	| string
+	| symbol
+	| undefined
+	| URL;
+type QsSubPath<T, D extends unknown[]> = 0 extends 1 & T
+	? `.${string}` | `[${number}]${string}`
+	: D['length'] extends 8
+		? never
+		: T extends QsLeafValue
+			? never
+			: T extends readonly (infer I)[]
+				? `[${number}]` | `[${number}]${QsSubPath<I, [...D, unknown]>}`
+				: T extends object
+					? `.${QsPath<T, D>}`
+					: never;
+type QsPath<T, D extends unknown[] = []> = 0 extends 1 & T
+	? string
+	: {
+			[K in keyof T & string]: K | `${K}${QsSubPath<NonNullable<T[K]>, [...D, unknown]>}`;
+		}[keyof T & string];
+type QsPathHead<P extends string> = P extends `${infer K}.${infer R}`
+	? K extends `${infer K2}[${infer R2}`
+		? [K2, `[${R2}.${R}`]
+		: [K, `.${R}`]
+	: P extends `${infer K}[${infer R}`
+		? [K, `[${R}`]
+		: [P, ''];
+type QsPathValue<T, P extends string> = 0 extends 1 & T
+	? any
+	: P extends ''
+		? T
+		: P extends `.${infer R}`
+			? QsPathValue<T, R>
+			: P extends `[${number}]${infer R}`
+				? NonNullable<T> extends readonly (infer I)[]
+					? QsPathValue<I, R>
+					: undefined
+				: QsPathHead<P> extends [infer K, infer R extends string]
+					? K extends keyof NonNullable<T>
+						? QsPathValue<NonNullable<T>[K], R>
+						: undefined
+					: undefined;
+
+// Type-level counterparts of the case option, for plain camelCase, snake_case and kebab-case keys
+type QsSeparatedCase<S extends string, Separator extends string> = S extends `${infer H}${infer R}`
+	? `${H extends Lowercase<H> ? H : `${Separator}${Lowercase<H>}`}${QsSeparatedCase<R, Separator>}`
+	: S;
+type QsCamelCase<S extends string> = S extends `${infer H}${'_' | '-'}${infer R}` ? `${H}${QsCamelCase<Capitalize<R>>}` : S;
+type QsCaseKey<K extends string, C extends QsCase> = C extends 'snake_case'
+	? QsSeparatedCase<QsCamelCase<K>, '_'>
+	: C extends 'kebab-case'
+		? QsSeparatedCase<QsCamelCase<K>, '-'>
+		: QsCamelCase<K>;
+type QsCased<T, C extends QsCase> = T extends QsLeafValue
+	? T
+	: T extends readonly (infer I)[]
+		? QsCased<I, C>[]
+		: T extends object
+			? { [K in keyof T as K extends string ? QsCaseKey<K, C> : K]: QsCased<T[K], C> }
+			: T;
+
+class QsParseError extends Error {
+	issues: QsParseIssue[];
+
+	constructor(issues: QsParseIssue[]) {
+		super(
+			`Invalid query string: ${map(issues, issue => (isNil(issue.offset) ? issue.message : `${issue.message} at ${issue.offset}`)).join(', ')}`
+		);
+
+		this.issues = issues;
+		this.name = 'QsParseError';
+	}
+}
+
+class QsSchemaError extends Error {
+	issues: QsSchemaIssue[];
+
+	constructor(issues: QsSchemaIssue[]) {
+		super(`Invalid query string: ${map(issues, issue => `${issue.path} ${issue.message}`).join(', ')}`);
+
+		this.issues = issues;
+		this.name = 'QsSchemaError';
+	}
+}
+
+class QsLimitError extends Error {
+	key?: string;
+	limit: QsLimit;
+	value: number | string;
+
+	constructor(exceeded: QsLimitExceeded) {
+		super(`Query string exceeds ${exceeded.limit}${exceeded.key ? ` at ${exceeded.key}` : ''}: ${exceeded.value}`);
+
+		this.key = exceeded.key;
+		this.limit = exceeded.limit;
+		this.name = 'QsLimitError';
+		this.value = exceeded.value;
+	}
+}
+
+// Marks a value to be written even when it equals its default
+class QsKeep<T = any> {
+	value: T;
+
+	constructor(value: T) {
+		this.value = value;
+	}
+}
+
+class QsKeyMapError extends Error {
+	key: string;
+
+	constructor(key: string) {
+		super(`Query string key is not in keyMap: ${key}`);
+
+		this.key = key;
+		this.name = 'QsKeyMapError';
+	}
+}
+
+const schema = {
+	array: <N extends QsSchemaNode>(of: N) => ({ type: 'array' as const, of }),
+	boolean: () => ({ type: 'boolean' as const }),
+	date: () => ({ type: 'date' as const }),
+	default: <N extends QsSchemaNode>(of: N, value: QsInferNode<N>) => ({ type: 'default' as const, of, value }),
+	enum: <const V extends readonly string[]>(values: V) => ({ type: 'enum' as const, values }),
+	number: () => ({ type: 'number' as const }),
+	object: <S extends QsSchemaShape>(shape: S) => ({ type: 'object' as const, shape }),
+	optional: <N extends QsSchemaNode>(of: N) => ({ type: 'optional' as const, of }),
+	string: () => ({ type: 'string' as const })
+};
+
+const codecs = {
+	bigint: {
+		decode: payload => BigInt(payload),
+		encode: value => value.toString(),
+		name: 'bigint',
+		test: value => typeof value === 'bigint'
+	} as QsCodec<bigint>,
+	date: {
+		decode: payload => {
+			const date = new Date(payload);
+
+			if (isNaN(date.getTime())) {
+				throw new Error(`Invalid date: ${payload}`);
+			}
+
+			return date;
+		},
+		encode: value => value.toISOString(),
+		name: 'date',
+		test: isDate
+	} as QsCodec<Date>,
+	map: {
+		decode: payload => new Map(JSON.parse(payload)),
+		encode: value => JSON.stringify([...value]),
+		name: 'map',
+		test: isMap
+	} as QsCodec<Map<any, any>>,
+	regexp: {
+		decode: payload => {
+			const [, source, flags] = payload.match(/^\/(.*)\/([a-z]*)$/s)!;
+
+			return new RegExp(source, flags);
+		},
+		encode: value => value.toString(),
+		name: 'regexp',
+		test: isRegExp
+	} as QsCodec<RegExp>,
+	set: {
+		decode: payload => new Set(JSON.parse(payload)),
+		encode: value => JSON.stringify([...value]),
+		name: 'set',
+		test: isSet
+	} as QsCodec<Set<any>>,
+	url: {
+		decode: payload => new URL(payload),
+		encode: value => value.href,
+		name: 'url',
+		test: value => value instanceof URL
+	} as QsCodec<URL>
 };
 
-const SPECIAL_CHARS_REGEX = /[&=#]/;
+const DEFAULT_CODECS: QsCodec[] = [codecs.map, codecs.set];
+
+const base64Url = (data: ArrayBuffer | Uint8Array): string => {
+	const bytes = new Uint8Array(data);
+	let binary = '';
+
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
 
-const needsEncoding = (value: string): boolean => {
-	return SPECIAL_CHARS_REGEX.test(value);
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
 };
 
-const isEncoded = (value: string): boolean => {
+const fromBase64Url = (value: string): Uint8Array | null => {
 	try {
-		return decodeURIComponent(value) !== value;
+		return Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
 	} catch {
-		return false;
+		return null;
 	}
 };
 
-const transformKey = (key: string, options?: QsOptions): string => {
-	if (!options?.case) {
+// Reading stops once the output passes maxLength, keeping a single byte past it so callers can tell
+const readChunks = async (read: () => Promise<Uint8Array | undefined>, maxLength: number): Promise<Uint8Array> => {
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+
+	while (length <= maxLength) {
+		const chunk = await read();
+
+		if (!chunk) {
+			break;
+		}
+
+		chunks.push(chunk);
+		length += size(chunk);
+	}
+
+	const output = new Uint8Array(Math.min(length, maxLength + 1));
+	let offset = 0;
+
+	for (const chunk of chunks) {
+		output.set(chunk.subarray(0, size(output) - offset), offset);
+		offset += Math.min(size(chunk), size(output) - offset);
+	}
+
+	return output;
+};
+
+const transformStream = async (data: Uint8Array, mode: 'compress' | 'decompress', maxLength: number = Infinity): Promise<Uint8Array> => {
+	if (typeof CompressionStream !== 'undefined') {
+		const transform = mode === 'compress' ? new CompressionStream('deflate-raw') : new DecompressionStream('deflate-raw');
+		const reader = new Blob([data]).stream().pipeThrough(transform).getReader();
+
+		try {
+			return await readChunks(async () => (await reader.read()).value, maxLength);
+		} finally {
+			reader.cancel().catch(noop);
+		}
+	}
+
+	const zlib = typeof process !== 'undefined' && isFunction(process.getBuiltinModule) ? process.getBuiltinModule('zlib') : null;
+
+	if (!zlib) {
+		throw new Error('Neither CompressionStream nor zlib is available, use compressors.lzw');
+	}
+
+	const stream = mode === 'compress' ? zlib.createDeflateRaw() : zlib.createInflateRaw();
+	const iterator: AsyncIterator<Uint8Array> = stream[Symbol.asyncIterator]();
+
+	stream.end(data);
+
+	try {
+		return await readChunks(async () => (await iterator.next()).value, maxLength);
+	} finally {
+		stream.destroy();
+	}
+};
+
+const bitLength = (value: number): number => {
+	return Math.min(16, Math.max(8, Math.floor(Math.log2(value)) + 1));
+};
+
+// Variable-width LZW over bytes; the width of the nth code follows from n, so no headers are needed
+const lzwCompress = (data: Uint8Array): Uint8Array => {
+	const dictionary = new Map<string, number>();
+	const output: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+	let count = 0;
+	let word = '';
+
+	for (let i = 0; i < 256; i++) {
+		dictionary.set(String.fromCharCode(i), i);
+	}
+
+	const write = (code: number) => {
+		buffer |= code << bits;
+		bits += bitLength(255 + count);
+		count += 1;
+
+		while (bits >= 8) {
+			output.push(buffer & 255);
+			buffer >>>= 8;
+			bits -= 8;
+		}
+	};
+
+	for (const byte of data) {
+		const char = String.fromCharCode(byte);
+
+		if (dictionary.has(word + char)) {
+			word += char;
+			continue;
+		}
+
+		write(dictionary.get(word)!);
+
+		if (dictionary.size < 65536) {
+			dictionary.set(word + char, dictionary.size);
+		}
+
+		word = char;
+	}
+
+	if (word) {
+		write(dictionary.get(word)!);
+	}
+
+	if (bits > 0) {
+		output.push(buffer & 255);
+	}
+
+	return new Uint8Array(output);
+};
+
+// Decoding stops once the output passes maxLength, since a few bytes of codes can expand quadratically
+const lzwDecompress = (data: Uint8Array, maxLength: number = Infinity): Uint8Array => {
+	const dictionary: number[][] = [];
+	const output: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+	let count = 0;
+	let offset = 0;
+	let previous: number[] | null = null;
+
+	for (let i = 0; i < 256; i++) {
+		dictionary.push([i]);
+	}
+
+	while (size(output) <= maxLength) {
+		const width = bitLength(255 + count);
+
+		while (bits < width && offset < size(data)) {
+			buffer |= data[offset] << bits;
+			bits += 8;
+			offset += 1;
+		}
+
+		// Leftover padding is always shorter than a code
+		if (bits < width) {
+			break;
+		}
+
+		const code = buffer & ((1 << width) - 1);
+
+		buffer >>>= width;
+		bits -= width;
+		count += 1;
+
+		const entry: number[] | undefined = code < size(dictionary) ? dictionary[code] : previous ? [...previous, previous[0]] : undefined;
+
+		if (!entry) {
+			throw new Error('Invalid LZW data');
+		}
+
+		if (previous && size(dictionary) < 65536) {
+			dictionary.push([...previous, entry[0]]);
+		}
+
+		output.push(...entry);
+		previous = entry;
+	}
+
+	return new Uint8Array(output.slice(0, maxLength + 1));
+};
+
+const compressors = {
+	deflate: {
+		compress: data => transformStream(data, 'compress'),
+		decompress: (data, maxLength) => transformStream(data, 'decompress', maxLength),
+		id: 'd'
+	} as QsCompressor,
+	lzw: {
+		compress: lzwCompress,
+		decompress: lzwDecompress,
+		id: 'l'
+	} as QsCompressor
+};
+// Everything but unreserved and sub-delimiter characters, minus the ones that delimit pairs
+const UNSAFE_CHARS_REGEX = /[^\w\-.~!$'()*,;:@/?]/gu;
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+// The WHATWG urlencoded serializer leaves only these characters as they are
+const FORM_UNSAFE_CHARS_REGEX = /[^*\-.\w ]/gu;
+const CHARSET_SENTINELS = { 'iso-8859-1': '%26%2310003%3B', 'utf-8': '%E2%9C%93' };
+const INDEX_REGEX = /^(?:0|[1-9]\d*)$/;
+const QUOTED_REGEX = /^'[\s\S]*'$/;
+const DECIMAL_REGEX = /^-?(?:\d+(?:\.\d+)?|\.\d+)(?:e[-+]?\d+)?$/i;
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+// Anything JSON.parse could accept, so plain strings skip the thrown exception
+const JSON_REGEX = /^\s*(?:[-\d{["]|(?:true|false|null)\s*$)/;
+const BARE_VALUES = { empty: '', null: null, true: true };
+const SAFE_LIMITS = {
+	arrayLimit: 1000,
+	depth: 20,
+	maxLength: 100000,
+	parameterLimit: 1000
+};
+
+const encodeComponent = (value: string, kind: QsEncodeKind, options?: QsOptions): string => {
+	if (options?.encode === false) {
+		return value;
+	}
+
+	if (isFunction(options?.encode)) {
+		return options.encode(value, kind);
+	}
+
+	if (options?.mode === 'form') {
+		return encodeForm(value, options.charset ?? 'utf-8');
+	}
+
+	const encoded = value.replace(UNSAFE_CHARS_REGEX, char => encodeURIComponent(char));
+
+	return options?.format === 'RFC1738' ? encoded.replace(/%20/g, '+') : encoded;
+};
+
+const toPercentBytes = (bytes: ArrayLike<number>): string => {
+	return map(Array.from(bytes), byte => `%${byte.toString(16).toUpperCase().padStart(2, '0')}`).join('');
+};
+
+// Characters ISO-8859-1 cannot hold are sent as numeric character references, as browsers do
+const encodeForm = (value: string, charset: QsCharset): string => {
+	const encoded = value.toWellFormed().replace(FORM_UNSAFE_CHARS_REGEX, char => {
+		const codePoint = char.codePointAt(0)!;
+
+		if (charset === 'utf-8') {
+			return toPercentBytes(new TextEncoder().encode(char));
+		}
+
+		return codePoint <= 0xff ? toPercentBytes([codePoint]) : encodeForm(`&#${codePoint};`, charset);
+	});
+
+	return encoded.replace(/ /g, '+');
+};
+
+// Malformed escapes stay as they are, invalid UTF-8 becomes U+FFFD and ISO-8859-1 bytes are their own code points
+const decodeForm = (value: string, charset: QsCharset): string => {
+	const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+	const decoded = value.replace(/\+/g, ' ').replace(/(?:%[\da-f]{2})+/gi, escapes => {
+		const bytes = map(escapes.slice(1).split('%'), byte => parseInt(byte, 16));
+
+		return charset === 'utf-8' ? decoder.decode(new Uint8Array(bytes)) : String.fromCharCode(...bytes);
+	});
+
+	return charset === 'iso-8859-1'
+		? decoded.replace(/&#(\d+);/g, (reference, codePoint) => String.fromCodePoint(Number(codePoint)))
+		: decoded;
+};
+
+const decodeComponent = (value: string, kind: QsEncodeKind, options?: QsOptions, onError?: () => void): string => {
+	if (options?.decode) {
+		return options.decode(value, kind);
+	}
+
+	if (options?.mode === 'form') {
+		if (/%(?![\da-f]{2})/i.test(value)) {
+			onError?.();
+		}
+
+		return decodeForm(value, options.charset ?? 'utf-8');
+	}
+
+	const isRfc1738 = options?.format === 'RFC1738';
+
+	if (!includes(value, '%') && !(isRfc1738 && includes(value, '+'))) {
+		return value;
+	}
+
+	const str = isRfc1738 ? value.replace(/\+/g, ' ') : value;
+
+	try {
+		return decodeURIComponent(str);
+	} catch {
+		// Malformed escapes are kept as they are
+		onError?.();
+
+		return str;
+	}
+};
+
+// Structural dots and brackets stay readable, only the segment names are encoded
+const encodeKey = (key: string, options?: QsOptions): string => {
+	if (options?.encodeValuesOnly) {
 		return key;
 	}
 
-	// Split on dots to handle nested keys
-	const parts = key.split('.');
+	// Forms encode every reserved character, brackets included
+	if (options?.mode === 'form') {
+		return encodeComponent(key, 'key', options);
+	}
+
+	return key.replace(/[^.[\]]+/g, segment => encodeComponent(segment, 'key', options));
+};
+
+const applyCase = (value: string, targetCase: QsCase): string => {
+	if (targetCase === 'snake_case') {
+		return snakeCase(value);
+	}
+
+	if (targetCase === 'camelCase') {
+		return camelCase(value);
+	}
+
+	return kebabCase(value);
+};
+
+// Applies the iteratee to every named segment, leaving array indices untouched
+const mapKeySegments = (key: string, iteratee: (segment: string) => string, options?: QsOptions): string => {
+	const parts = options?.nesting === 'brackets' ? [key] : key.split('.');
 	const transformedParts = map(parts, part => {
-		// Handle array notation separately
-		const splitParts = part.split('[');
-		const basePart = first(splitParts);
-		const arrayParts = slice(splitParts, 1);
-
-		if (basePart) {
-			let casePart = basePart;
-
-			if (options.case === 'snake_case') {
-				casePart = snakeCase(basePart);
-			} else if (options.case === 'camelCase') {
-				casePart = camelCase(basePart);
-			} else if (options.case === 'kebab-case') {
-				casePart = kebabCase(basePart);
+		return part.replace(/^[^[]+|\[([^\]]*)\]/g, (match, inner?: string) => {
+			if (isUndefined(inner)) {
+				return iteratee(match);
 			}
 
-			if (size(arrayParts) > 0) {
-				return `${casePart}[${arrayParts.join('[')}`;
+			if (options?.nesting === 'brackets' && inner && !/^\d+$/.test(inner) && !QUOTED_REGEX.test(inner)) {
+				return `[${iteratee(inner)}]`;
 			}
 
-			return casePart;
-		}
-
-		return '';
+			return match;
+		});
 	});
 
 	return transformedParts.join('.');
 };
 
+const transformKey = (key: string, options?: QsOptions): string => {
+	if (!options?.case) {
+		return key;
+	}
+
+	return mapKeySegments(key, segment => applyCase(segment, options.case!), options);
+};
+
 const reverseTransformKey = (key: string, options?: QsOptions): string => {
 	const restoreCase = options?.restoreCase ?? (options?.case ? 'camelCase' : false);
 
@@ -88,33 +752,60 @@ const reverseTransformKey = (key: string, options?: QsOptions): string => {
 		return key;
 	}
 
-	const parts = key.split('.');
-	const transformedParts = map(parts, part => {
-		const splitParts = part.split('[');
-		const basePart = first(splitParts);
-		const arrayParts = slice(splitParts, 1);
-
-		if (basePart) {
-			let casePart = basePart;
-
-			if (restoreCase === 'camelCase') {
-				casePart = camelCase(basePart);
-			} else if (restoreCase === 'snake_case') {
-				casePart = snakeCase(basePart);
-			} else if (restoreCase === 'kebab-case') {
-				casePart = kebabCase(basePart);
-			}
+	return mapKeySegments(key, segment => applyCase(segment, restoreCase), options);
+};
 
-			if (size(arrayParts) > 0) {
-				return `${casePart}[${arrayParts.join('[')}`;
-			} else {
-				return casePart;
-			}
+const joinPath = (path: string, key: string, options?: QsOptions): string => {
+	if (!path) {
+		return key;
+	}
+
+	return options?.nesting === 'brackets' ? `${path}[${quoteSegment(key)}]` : `${path}.${key}`;
+};
+
+const toIndex = (segment: string): QsPathSegment => {
+	return INDEX_REGEX.test(segment) && Number(segment) <= Number.MAX_SAFE_INTEGER ? Number(segment) : segment;
+};
+
+// Bracketed object keys that would read as indices are quoted, `a['0']`, and quoted keys are quoted again
+const quoteSegment = (segment: string): string => {
+	return isNumber(toIndex(segment)) || QUOTED_REGEX.test(segment) ? `'${segment}'` : segment;
+};
+
+const unquoteSegment = (segment: string): QsPathSegment => {
+	return size(segment) > 1 && QUOTED_REGEX.test(segment) ? segment.slice(1, -1) : toIndex(segment);
+};
+
+const splitPath = (key: string, options?: QsOptions): QsPathSegment[] => {
+	if (options?.nesting === 'brackets') {
+		const base = first(key.split('['))!;
+		const rest = key.slice(size(base));
+
+		// Malformed brackets keep the whole key as a single segment
+		if (!base || !/^(\[[^\]]*\])*$/.test(rest)) {
+			return [key];
+		}
+
+		return [base, ...map(rest.match(/\[[^\]]*\]/g), segment => unquoteSegment(segment.slice(1, -1)))];
+	}
+
+	if (!includes(key, '[')) {
+		return key.split('.');
+	}
+
+	// Only bracketed numbers are indices, `a.0` is an object key
+	const path = map(key.split('.'), segment => {
+		const matches = segment.match(/\[(\d+)\]/g);
+		if (matches) {
+			const [base, ...indices] = segment.replace(/\[(\d+)\]/g, '.$1').split('.');
+
+			return [base, ...map(indices, toIndex)];
+		} else {
+			return segment;
 		}
-		return '';
 	});
 
-	return transformedParts.join('.');
+	return flattenDeep(path);
 };
 
 const addPrefix = (key: string, options?: QsOptions): string => {
@@ -132,159 +823,1536 @@ const removePrefix = (key: string, options?: QsOptions): string => {
 	return startsWith(key, options.prefix) ? key.slice(size(options.prefix)) : key;
 };
 
-const shouldOmitValue = (value: any, key: string, options?: QsOptions): boolean => {
-	if (!options?.omitValues) {
-		return isNil(value) || value === '' || (isMap(value) && value.size === 0) || (isSet(value) && value.size === 0);
+// Leaves, arrays included, are compared whole, so an array is written in full or not at all
+const unwrapKeep = (value: any): any => {
+	return value instanceof QsKeep ? value.value : value;
+};
+
+const omitDefaults = (value: any, defaults: any): any => {
+	if (value instanceof QsKeep) {
+		return value.value;
 	}
 
-	if (isFunction(options.omitValues)) {
-		return options.omitValues(value, key);
+	if (!isPlainObject(value) || !isPlainObject(defaults)) {
+		return value;
 	}
 
-	return options.omitValues.includes(value);
+	return reduce(
+		value,
+		(reduction: Record<string, any>, child, key) => {
+			if (!has(defaults, key) || !isEqual(child, defaults[key])) {
+				reduction[key] = omitDefaults(child, defaults[key]);
+			}
+
+			return reduction;
+		},
+		{}
+	);
 };
 
-const parse = (str: string, options?: QsOptions): Record<string, any> => {
-	if (isEmpty(str)) {
-		return {};
+// Parsed values replace defaults whole, only plain objects are merged key by key
+const fillDefaults = (value: any, defaults: any): any => {
+	if (isUndefined(value)) {
+		return cloneDeep(defaults);
 	}
 
-	const cleanStr = trimStart(trim(str, ' '), '?');
-	const result = reduce(
-		cleanStr.split('&'),
-		(reduction: Record<string, any>, param: string) => {
-			if (isEmpty(param)) {
-				return reduction;
-			}
+	if (!isPlainObject(value) || !isPlainObject(defaults)) {
+		return value;
+	}
 
-			const parts = param.split('=');
-			const key = first(parts);
-			const valueParts = slice(parts, 1);
+	return reduce(
+		defaults,
+		(reduction: Record<string, any>, defaultValue, key) => {
+			reduction[key] = fillDefaults(value[key], defaultValue);
 
-			if (isEmpty(key)) {
-				return reduction;
-			}
+			return reduction;
+		},
+		{ ...value }
+	);
+};
 
-			// Skip if key doesn't match prefix
-			if (options?.prefix && !startsWith(key, options.prefix)) {
-				return reduction;
-			}
+// keyMap paths skip array indices, so `items.label` names the label of every item
+const aliasKeys = (input: any, options: QsOptions, path: string[] = []): any => {
+	const value = unwrapKeep(input);
 
-			const rawValue = valueParts.join('=');
-			const value = isEncoded(rawValue) ? decodeURIComponent(rawValue) : rawValue;
-
-			// Transform the key path for processing
-			const transformedKey = reverseTransformKey(removePrefix(key!, options), options);
-			const path = map(transformedKey.split('.'), segment => {
-				const matches = segment.match(/\[(\d+)\]/g);
-				if (matches) {
-					return segment.replace(/\[(\d+)\]/g, '.$1').split('.');
-				} else {
-					return segment;
-				}
-			});
+	if (isArray(value)) {
+		return map(value, item => aliasKeys(item, options, path));
+	}
+
+	if (!isPlainObject(value)) {
+		return value;
+	}
 
-			const flatPath = flattenDeep(path);
-			let parsedValue: any = value;
+	return reduce(
+		value,
+		(reduction: Record<string, any>, child, key) => {
+			const childPath = [...path, key];
+			const alias = options.keyMap?.[childPath.join('.')];
 
-			try {
-				if (startsWith(value, 'map(') && endsWith(value, ')')) {
-					parsedValue = new Map(JSON.parse(value.slice(4, -1)));
-				} else if (startsWith(value, 'set(') && endsWith(value, ')')) {
-					parsedValue = new Set(JSON.parse(value.slice(4, -1)));
-				} else {
-					parsedValue = JSON.parse(value);
-				}
-			} catch {
-				// Keep original value if not JSON parseable
+			if (isUndefined(alias) && options.strictKeyMap) {
+				throw new QsKeyMapError(childPath.join('.'));
 			}
 
-			return set(reduction, flatPath, parsedValue);
+			reduction[alias ?? key] = aliasKeys(child, options, childPath);
+
+			return reduction;
 		},
 		{}
 	);
-
-	return result;
 };
 
-const stringify = (obj: Record<string, any>, options?: QsOptions): string => {
-	const processValue = (value: any): string => {
-		if (isNil(value)) {
-			return '';
+const unaliasPath = (path: QsPathSegment[], options: QsOptions): QsPathSegment[] => {
+	// Segments arrive with their case restored, so aliases are compared the way they come back
+	const entries = map(toPairs(options.keyMap), ([key, alias]) => [key, reverseTransformKey(transformKey(alias, options), options)]);
+	const keyPath: string[] = [];
+
+	return map(path, segment => {
+		if (isNumber(segment)) {
+			return segment;
 		}
 
-		let stringValue: string;
+		const parent = keyPath.join('.');
+		const entry = find(entries, ([key, alias]) => alias === segment && initial(key.split('.')).join('.') === parent);
+		const name = entry ? last(entry[0].split('.'))! : segment;
 
-		if (isDate(value)) {
-			stringValue = value.toISOString();
-		} else if (isMap(value)) {
-			stringValue = `map(${JSON.stringify([...value])})`;
-		} else if (isSet(value)) {
-			stringValue = `set(${JSON.stringify([...value])})`;
-		} else if (isObject(value) && !isArray(value)) {
-			stringValue = JSON.stringify(value);
-		} else {
-			stringValue = String(value);
+		if (!entry && options.strictKeyMap) {
+			throw new QsKeyMapError([...keyPath, segment].join('.'));
 		}
 
-		return needsEncoding(stringValue) ? encodeURIComponent(stringValue) : stringValue;
-	};
+		keyPath.push(name);
 
-	const buildKeyValuePairs = (input: any, prefix: string = ''): string[] => {
-		return reduce(
-			input,
-			(reduction: string[], value: any, key: string) => {
-				const keyPath = prefix ? `${prefix}.${key}` : key;
+		return name;
+	});
+};
 
-				if (shouldOmitValue(value, keyPath, options)) {
-					return reduction;
-				}
+// Namespaces inherit every other option, unmatched params are read and written without a prefix
+const getNamespaces = (options: QsOptions): { name: string; options: QsOptions }[] => {
+	if (has(options.namespaces, 'rest')) {
+		throw new Error("Namespace 'rest' is reserved for unmatched params");
+	}
 
-				if (isArray(value)) {
-					if (isEmpty(value)) {
-						return reduction;
-					}
+	const namespaceOptions = { ...options, compact: false, defaults: undefined, namespaces: undefined, schema: undefined };
 
-					const arrayPairs = map(value, (item, index) => {
-						const arrayKey = transformKey(`${keyPath}[${index}]`, options);
+	return [
+		...map(options.namespaces, (namespace, name) => ({
+			name,
+			options: { ...namespaceOptions, ...(isString(namespace) ? { prefix: namespace } : namespace) }
+		})),
+		{ name: 'rest', options: { ...namespaceOptions, prefix: undefined } }
+	];
+};
 
-						if (isObject(item) && !isDate(item)) {
-							return buildKeyValuePairs(item, arrayKey);
-						} else {
-							return `${addPrefix(arrayKey, options)}=${processValue(item)}`;
-						}
-					});
+// The longest matching prefix wins, so `f-` and `f-x-` can coexist
+const findNamespace = (key: string, options: QsOptions) => {
+	const namespaces = getNamespaces(options);
+	const matches = filter(namespaces, namespace => !!namespace.options.prefix && startsWith(key, namespace.options.prefix));
 
-					return [...reduction, ...flattenDeep(arrayPairs)];
-				}
+	return maxBy(matches, namespace => size(namespace.options.prefix)) ?? last(namespaces)!;
+};
 
-				if (isObject(value) && !isDate(value) && !isMap(value) && !isSet(value)) {
-					if (isEmpty(value)) {
-						return reduction;
-					}
+const shouldOmitValue = (value: any, key: string, options?: QsOptions): boolean => {
+	if (!options?.omitValues) {
+		// Nulls are kept when there is a way to write them
+		const isNullWritten = options?.bareKeys === 'null' || !isUndefined(options?.nullValue);
+
+		return (
+			isUndefined(value) ||
+			(value === null && !isNullWritten) ||
+			(value === '' && options?.mode !== 'form') ||
+			(isMap(value) && value.size === 0) ||
+			(isSet(value) && value.size === 0)
+		);
+	}
+
+	if (isFunction(options.omitValues)) {
+		return options.omitValues(value, key);
+	}
+
+	return options.omitValues.includes(value);
+};
+
+const getLimits = (options?: QsOptions) => {
+	const defaults = (options?.safe ?? true) ? SAFE_LIMITS : null;
+
+	return {
+		arrayLimit: options?.arrayLimit ?? defaults?.arrayLimit ?? Infinity,
+		depth: options?.depth ?? defaults?.depth ?? Infinity,
+		maxLength: options?.maxLength ?? defaults?.maxLength ?? Infinity,
+		parameterLimit: options?.parameterLimit ?? defaults?.parameterLimit ?? Infinity
+	};
+};
+
+// Truncation is the default outcome, throwing or reporting are opt-in
+const exceedLimit = (exceeded: QsLimitExceeded, options?: QsOptions): void => {
+	const onLimit = options?.onLimit ?? 'truncate';
+
+	if (onLimit === 'throw') {
+		throw new QsLimitError(exceeded);
+	}
+
+	if (isFunction(onLimit)) {
+		onLimit(exceeded);
+	}
+};
+
+const checkPath = (path: QsPathSegment[], key: string, options: QsOptions | undefined, limits: ReturnType<typeof getLimits>): boolean => {
+	if ((options?.safe ?? true) && some(path, segment => includes(UNSAFE_KEYS, segment))) {
+		exceedLimit({ key, limit: 'unsafeKey', value: find(path, segment => includes(UNSAFE_KEYS, segment))! }, options);
+
+		return false;
+	}
+
+	if (size(path) - 1 > limits.depth) {
+		exceedLimit({ key, limit: 'depth', value: size(path) - 1 }, options);
+
+		return false;
+	}
+
+	return true;
+};
+
+// Indices above arrayLimit become object keys, so a single key cannot allocate a huge array
+const limitIndices = (
+	path: QsPathSegment[],
+	key: string,
+	options: QsOptions | undefined,
+	limits: ReturnType<typeof getLimits>
+): QsPathSegment[] => {
+	const index = max(filter(path, isNumber)) ?? -1;
+
+	if (index <= limits.arrayLimit) {
+		return path;
+	}
+
+	exceedLimit({ key, limit: 'arrayLimit', value: index }, options);
+
+	return map(path, segment => (isNumber(segment) && segment > limits.arrayLimit ? String(segment) : segment));
+};
+
+const schemaPath = (path: string, key: string | number): string => {
+	if (isNumber(key)) {
+		return `${path}[${key}]`;
+	}
+
+	return path ? `${path}.${key}` : key;
+};
+
+const coerceSchemaValue = (node: QsSchemaNode, value: any, path: string, issues: QsSchemaIssue[]): any => {
+	const report = (message: string) => {
+		issues.push({ message, path, value });
+
+		return undefined;
+	};
+
+	// Schemas have no null type, so an explicit null reads as absent
+	if (node.type === 'optional') {
+		return isNil(value) ? undefined : coerceSchemaValue(node.of, value, path, issues);
+	}
+
+	if (node.type === 'default') {
+		return isNil(value) ? cloneDeep(node.value) : coerceSchemaValue(node.of, value, path, issues);
+	}
+
+	if (isNil(value)) {
+		return report('is required');
+	}
+
+	switch (node.type) {
+		case 'string':
+			return isString(value) ? value : report('expected string');
+		// Only plain decimals, so `0x10`, `1_000` or padded values are not read as numbers
+		case 'number': {
+			const number = isString(value) && DECIMAL_REGEX.test(value) ? Number(value) : NaN;
+
+			return isFinite(number) ? number : report('expected number');
+		}
+		case 'boolean':
+			if (value === true || value === 'true' || value === '1') {
+				return true;
+			}
+
+			if (value === 'false' || value === '0') {
+				return false;
+			}
+
+			return report('expected boolean');
+		// Only ISO 8601, and days past the end of the month would otherwise roll over into the next one
+		case 'date': {
+			const match = isString(value) ? value.match(ISO_DATE_REGEX) : null;
+			const lastDay = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]), 0)).getUTCDate() : 0;
+			const date = match && Number(match[3]) <= lastDay ? new Date(value) : null;
+
+			return date && !isNaN(date.getTime()) ? date : report('expected date');
+		}
+		case 'enum':
+			return includes(node.values, value) ? value : report(`expected one of ${node.values.join(', ')}`);
+		case 'array': {
+			const items = isArray(value) ? value : isString(value) ? [value] : null;
+
+			if (!items) {
+				return report('expected array');
+			}
+
+			return reduce(
+				items,
+				(reduction: any[], item, index) => {
+					// Holes left by sparse indices are skipped
+					if (!isUndefined(item)) {
+						reduction.push(coerceSchemaValue(node.of, item, schemaPath(path, index), issues));
+					}
+
+					return reduction;
+				},
+				[]
+			);
+		}
+		case 'object':
+			if (!isPlainObject(value)) {
+				return report('expected object');
+			}
+
+			return coerceSchema(node.shape, value, path, issues);
+	}
+};
+
+const coerceSchema = (shape: QsSchemaShape, value: Record<string, any>, path: string, issues: QsSchemaIssue[]): Record<string, any> => {
+	return reduce(
+		shape,
+		(reduction: Record<string, any>, node, key) => {
+			const coerced = coerceSchemaValue(node, value[key], schemaPath(path, key), issues);
+
+			if (!isUndefined(coerced)) {
+				reduction[key] = coerced;
+			}
+
+			return reduction;
+		},
+		{}
+	);
+};
+
+const serializeSchemaValue = (node: QsSchemaNode, input: any): any => {
+	const value = unwrapKeep(input);
+
+	if (isNil(value)) {
+		return value;
+	}
+
+	switch (node.type) {
+		case 'optional':
+		case 'default':
+			return serializeSchemaValue(node.of, value);
+		case 'boolean':
+			return isBoolean(value) ? value : String(value);
+		case 'date':
+			return isDate(value) ? value.toISOString() : String(value);
+		case 'array':
+			return isArray(value) ? map(value, item => serializeSchemaValue(node.of, item)) : value;
+		case 'object':
+			return isPlainObject(value) ? serializeSchema(node.shape, value) : value;
+		default:
+			return String(value);
+	}
+};
+
+const serializeSchema = (shape: QsSchemaShape, value: Record<string, any>): Record<string, any> => {
+	return reduce(
+		shape,
+		(reduction: Record<string, any>, node, key) => {
+			reduction[key] = serializeSchemaValue(node, value[key]);
+
+			return reduction;
+		},
+		{}
+	);
+};
+
+const findCodec = (value: any, options?: QsOptions): QsCodec | undefined => {
+	return find(options?.codecs ?? DEFAULT_CODECS, codec => codec.test(value));
+};
+
+const isLeaf = (value: any, options?: QsOptions): boolean => {
+	return !isObject(value) || isDate(value) || isMap(value) || isSet(value) || !isUndefined(findCodec(value, options));
+};
+
+const parseValue = (value: string, options?: QsOptions, onError?: (message: string) => void): any => {
+	const codec = endsWith(value, ')')
+		? find(options?.codecs ?? DEFAULT_CODECS, codec => {
+				return startsWith(value, `${codec.name}(`);
+			})
+		: undefined;
+
+	if (codec) {
+		try {
+			return codec.decode(value.slice(size(codec.name) + 1, -1));
+		} catch {
+			onError?.(`invalid ${codec.name} payload`);
+
+			return value;
+		}
+	}
+
+	if (!JSON_REGEX.test(value)) {
+		return value;
+	}
+
+	try {
+		return JSON.parse(value);
+	} catch {
+		// Keep original value if not JSON parseable
+		return value;
+	}
+};
+
+// Index-like keys, such as those past arrayLimit, fit both arrays and objects
+const isShapeConflict = (container: any, segment: QsPathSegment): boolean => {
+	const isIndexKey = (key: QsPathSegment) => isNumber(key) || INDEX_REGEX.test(key);
+
+	return isArray(container) ? !isIndexKey(segment) : isNumber(segment) && !every(keys(container), isIndexKey);
+};
+
+// A repeated path is a duplicate, a scalar meeting a nested path or an array meeting an object key is a conflict
+const findConflict = (
+	obj: Record<string, any>,
+	path: QsPathSegment[],
+	value: any,
+	duplicates: QsDuplicates,
+	options?: QsOptions
+): { existing: any; kind: 'duplicate' | 'nested' | 'scalar' | 'shape'; path: QsPathSegment[] } | null => {
+	let existing: any = obj;
+
+	// One walk down the path finds a scalar ancestor, a container of the other shape and the existing value
+	for (let index = 0; index < size(path); index++) {
+		if (index > 0 && isLeaf(existing, options)) {
+			return { existing, kind: 'nested', path: slice(path, 0, index) };
+		}
+
+		if (index > 0 && isShapeConflict(existing, path[index])) {
+			return { existing, kind: 'shape', path: slice(path, 0, index) };
+		}
+
+		existing = existing[path[index]];
+
+		if (isUndefined(existing)) {
+			return null;
+		}
+	}
+
+	// Arrays are combined into like repeated scalars
+	if (!isLeaf(existing, options) && isLeaf(value, options) && !(duplicates === 'combine' && isArray(existing))) {
+		return { existing, kind: 'scalar', path };
+	}
+
+	return { existing, kind: 'duplicate', path };
+};
+
+// Resolves a raw key into its object path, or null when the key is empty or outside the prefix
+const parseKey = (
+	rawKey: string,
+	options?: QsOptions,
+	onError?: () => void
+): { append: boolean; key: string; path: QsPathSegment[] } | null => {
+	// Namespaced keys are decoded again with the namespace's options, so errors are reported there
+	const key = decodeComponent(rawKey, 'key', options, options?.namespaces ? undefined : onError);
+
+	// Namespaced keys are parsed with the namespace's options, under the namespace's name
+	if (options?.namespaces && !isEmpty(key)) {
+		const namespace = findNamespace(key, options);
+		const parsedKey = parseKey(rawKey, namespace.options, onError);
+
+		return parsedKey && { ...parsedKey, path: [namespace.name, ...parsedKey.path] };
+	}
+
+	if (isEmpty(key) || (options?.prefix && !startsWith(key, options.prefix))) {
+		return null;
+	}
+
+	// Transform the key path for processing
+	const transformedKey = reverseTransformKey(removePrefix(key, options), options);
+	const append = endsWith(transformedKey, '[]');
+	const path = splitPath(append ? transformedKey.slice(0, -2) : transformedKey, options);
+
+	return {
+		append,
+		key,
+		path: options?.keyMap || options?.strictKeyMap ? unaliasPath(path, options) : path
+	};
+};
+
+// Bounds of the pairs once surrounding spaces and leading question marks are skipped
+const getQueryBounds = (str: string): [number, number] => {
+	let start = 0;
+	let end = size(str);
+
+	while (start < end && str[start] === ' ') {
+		start++;
+	}
+
+	while (end > start && str[end - 1] === ' ') {
+		end--;
+	}
+
+	while (start < end && str[start] === '?') {
+		start++;
+	}
+
+	return [start, end];
+};
+
+// A single scan finds the pairs and the first '=' in each, keeping offsets to point issues at the input
+const tokenize = (str: string, start: number, end: number): QsToken[] => {
+	const tokens: QsToken[] = [];
+	let pairStart = start;
+	let equals = -1;
+
+	for (let index = start; index <= end; index++) {
+		const char = index < end ? str[index] : '&';
+
+		if (char === '&') {
+			if (index > pairStart) {
+				tokens.push({
+					key: str.slice(pairStart, equals === -1 ? index : equals),
+					offset: pairStart,
+					pair: str.slice(pairStart, index),
+					value: equals === -1 ? '' : str.slice(equals + 1, index)
+				});
+			}
+
+			pairStart = index + 1;
+			equals = -1;
+		} else if (char === '=' && equals === -1) {
+			equals = index;
+		}
+	}
+
+	return tokens;
+};
+
+const tokenizeQuery = (str: string): QsToken[] => {
+	return tokenize(str, ...getQueryBounds(str));
+};
+
+// Creates containers like lodash set: an index makes an array, a key makes an object and turns an array into one
+const assignPath = (obj: Record<string, any>, path: QsPathSegment[], value: any): Record<string, any> => {
+	if (some(path, segment => includes(UNSAFE_KEYS, segment))) {
+		return obj;
+	}
+
+	let target: any = obj;
+
+	for (let index = 0; index < size(path) - 1; index++) {
+		const segment = path[index];
+		const isIndex = isNumber(path[index + 1]);
+
+		if (!isObject(target[segment])) {
+			target[segment] = isIndex ? [] : {};
+		} else if (isArray(target[segment]) && !isIndex) {
+			target[segment] = { ...target[segment] };
+		}
+
+		target = target[segment];
+	}
+
+	target[last(path)!] = value;
+
+	return obj;
+};
+
+// Arrays with holes, left by missing indices, are closed up or turned into objects
+const resolveSparseArrays = (value: any, policy: Exclude<QsSparseArrays, 'preserve'>): any => {
+	if (isArray(value)) {
+		const isSparse = some(range(size(value)), index => !(index in value));
+
+		// Native iteration skips holes, lodash would visit them as undefined
+		value.forEach((item, index) => {
+			value[index] = resolveSparseArrays(item, policy);
+		});
+
+		if (!isSparse) {
+			return value;
+		}
+
+		return policy === 'compact' ? value.filter(() => true) : { ...value };
+	}
+
+	if (isPlainObject(value)) {
+		forEach(keys(value), key => {
+			value[key] = resolveSparseArrays(value[key], policy);
+		});
+	}
+
+	return value;
+};
+
+const parseRaw = (str: string, options: QsOptions | undefined, parseValues: boolean, issues: QsParseIssue[]): Record<string, any> => {
+	if (isEmpty(str)) {
+		return {};
+	}
+
+	const arrayFormat = options?.arrayFormat ?? 'indices';
+	const separator = options?.arrayFormatSeparator ?? ',';
+	const duplicates = options?.duplicates ?? (arrayFormat === 'repeat' ? 'combine' : 'last');
+	const pathConflicts = options?.pathConflicts ?? 'last';
+	const limits = getLimits(options);
+	let [start, end] = getQueryBounds(str);
+
+	if (end - start > limits.maxLength) {
+		exceedLimit({ limit: 'maxLength', value: end - start }, options);
+		// Cutting a pair short would make up a key or value, so only whole pairs are kept
+		end = Math.max(str.lastIndexOf('&', start + limits.maxLength), start);
+	}
+
+	let params = tokenize(str, start, end);
+	const sentinel = options?.charsetSentinel ? find(params, token => token.key === 'utf8') : undefined;
+	const charset =
+		sentinel && find(keys(CHARSET_SENTINELS) as QsCharset[], name => CHARSET_SENTINELS[name] === sentinel.value.toUpperCase());
+
+	// A known charset sentinel picks the charset and is not a param itself
+	if (charset) {
+		params = filter(params, token => token !== sentinel);
+		options = { ...options, charset };
+	}
+
+	if (size(params) > limits.parameterLimit) {
+		exceedLimit({ limit: 'parameterLimit', value: size(params) }, options);
+		params = slice(params, 0, limits.parameterLimit);
+	}
+
+	const result = reduce(
+		params,
+		(reduction: Record<string, any>, { key: rawKey, offset, pair, value: rawValue }) => {
+			const report = (message: string, segment: string, segmentOffset: number, key: string) => {
+				issues.push({ key, message, offset: segmentOffset, segment });
+			};
+
+			if (isEmpty(rawKey)) {
+				report('empty key', pair, offset, '');
+
+				return reduction;
+			}
+
+			const parsedKey = parseKey(rawKey, options, () => {
+				report('malformed percent escape in key', rawKey, offset, rawKey);
+			});
+
+			if (!parsedKey) {
+				return reduction;
+			}
+
+			const { append, key } = parsedKey;
+			const valueOffset = offset + size(rawKey) + 1;
+			const parseItem = (item: string) => {
+				const decoded = decodeComponent(item, 'value', options, () => {
+					report('malformed percent escape in value', item, valueOffset, key);
+				});
+
+				if (!isUndefined(options?.nullValue) && decoded === options.nullValue) {
+					return null;
+				}
+
+				// With a schema, values stay raw strings and are coerced afterwards
+				return parseValues
+					? parseValue(decoded, options, message => {
+							report(message, item, valueOffset, key);
+						})
+					: decoded;
+			};
+
+			// Comma lists are split before decoding, so encoded separators stay inside items
+			const isList = arrayFormat === 'comma' && includes(rawValue, separator);
+			const isBare = pair === rawKey;
+			const value = isBare
+				? BARE_VALUES[options?.bareKeys ?? 'empty']
+				: isList
+					? map(rawValue.split(separator), parseItem)
+					: parseItem(rawValue);
+
+			// The namespace segment does not count towards limits
+			if (!checkPath(options?.namespaces ? slice(parsedKey.path, 1) : parsedKey.path, key, options, limits)) {
+				return reduction;
+			}
+
+			const flatPath = limitIndices(parsedKey.path, key, options, limits);
+
+			// Arrays built by parse are appended to in place, so repeated keys do not copy what came before
+			const combine = (existing: any) => {
+				const items = isList ? value : [value];
+
+				// Unsafe segments can reach Array.prototype, so those paths are left to assignPath to drop
+				if (isArray(existing) && !some(flatPath, segment => includes(UNSAFE_KEYS, segment))) {
+					forEach(items, item => {
+						existing.push(item);
+					});
+
+					return reduction;
+				}
+
+				return assignPath(reduction, flatPath, [...(isUndefined(existing) ? [] : [existing]), ...items]);
+			};
+
+			if (append) {
+				return combine(get(reduction, flatPath));
+			}
+
+			const conflict = findConflict(reduction, flatPath, value, duplicates, options);
+
+			if (!conflict) {
+				return assignPath(reduction, flatPath, value);
+			}
+
+			const rest = slice(flatPath, size(conflict.path));
+			const incoming = isEmpty(rest) ? value : assignPath(isNumber(first(rest)) ? [] : {}, rest, value);
+
+			if (options?.onConflict) {
+				options.onConflict(reduce(conflict.path, schemaPath, ''), conflict.existing, incoming);
+			}
+
+			if (conflict.kind === 'duplicate') {
+				if (duplicates === 'error') {
+					report('duplicate key', rawKey, offset, key);
+
+					throw new QsParseError(issues);
+				}
+
+				if (duplicates === 'first') {
+					return reduction;
+				}
+
+				return duplicates === 'combine' ? combine(conflict.existing) : assignPath(reduction, flatPath, value);
+			}
+
+			report('conflicts with an earlier key', rawKey, offset, key);
+
+			if (pathConflicts === 'error') {
+				throw new QsParseError(issues);
+			}
+
+			// Nested and scalar merge an array and an object key into an object keyed by index, whatever order they come in
+			if (conflict.kind === 'shape') {
+				if (pathConflicts === 'first') {
+					return reduction;
+				}
+
+				return pathConflicts === 'last' ? assignPath(reduction, conflict.path, incoming) : assignPath(reduction, flatPath, value);
+			}
+
+			// Nested and scalar keep the same side whatever order the keys come in
+			const keepExisting = pathConflicts === 'first' || pathConflicts === (conflict.kind === 'nested' ? 'scalar' : 'nested');
+
+			return keepExisting ? reduction : assignPath(reduction, flatPath, value);
+		},
+		{}
+	);
+
+	if (!options?.sparseArrays || options.sparseArrays === 'preserve') {
+		return result;
+	}
+
+	return resolveSparseArrays(result, options.sparseArrays);
+};
+
+const assertSync = <T>(value: T | Promise<T>, alternative: string): T => {
+	if (value instanceof Promise) {
+		value.catch(noop);
+
+		throw new Error(`Compressor is asynchronous, use ${alternative}`);
+	}
+
+	return value;
+};
+
+// Finds the compact param and the compressor that wrote it, keeping every other pair as is
+const readCompactParam = (str: string, options?: QsOptions) => {
+	const compactKey = options?.compactKey ?? 's';
+	const tokens = tokenizeQuery(str);
+	const index = findIndex(tokens, token => token.key === compactKey);
+
+	if (index === -1) {
+		return null;
+	}
+
+	const [id, payload] = tokens[index].value.split('.');
+	const compressor = find(compact([options?.compressor, compressors.deflate, compressors.lzw]), compressor => compressor.id === id);
+	const data = isUndefined(payload) ? null : fromBase64Url(payload);
+
+	// Malformed payloads stay regular params
+	if (!compressor || !data) {
+		return null;
+	}
+
+	return {
+		compressor,
+		data,
+		pairs: map(
+			filter(tokens, (token, tokenIndex) => tokenIndex !== index),
+			token => token.pair
+		),
+		token: tokens[index]
+	};
+};
+
+// The compact param holds the very pairs it replaced, so inflating is splicing them back in
+const inflateCompact = (str: string, options: QsOptions | undefined, issues: QsParseIssue[]): string => {
+	const param = readCompactParam(str, options);
+
+	if (!param) {
+		return str;
+	}
+
+	let data: Uint8Array | Promise<Uint8Array>;
+
+	try {
+		data = param.compressor.decompress(param.data, getLimits(options).maxLength);
+	} catch {
+		return str;
+	}
+
+	// Clients pick the compressor through the payload, so an asynchronous one is an issue rather than an error
+	if (data instanceof Promise) {
+		const { key, offset, value } = param.token;
+
+		data.catch(noop);
+		issues.push({ key, message: 'asynchronous compressor, use parseAsync', offset: offset + size(key) + 1, segment: value });
+
+		return str;
+	}
+
+	return [...param.pairs, new TextDecoder().decode(data)].join('&');
+};
+
+const inflateCompactAsync = async (str: string, options?: QsOptions): Promise<string> => {
+	const param = readCompactParam(str, options);
+
+	if (!param) {
+		return str;
+	}
+
+	try {
+		const data = await param.compressor.decompress(param.data, getLimits(options).maxLength);
+
+		return [...param.pairs, new TextDecoder().decode(data)].join('&');
+	} catch {
+		return str;
+	}
+};
+
+// Entries are already decoded, so they are re-encoded, in the mode and charset the parser decodes them with
+const readInput = (input: QsInput, options?: QsOptions): string => {
+	if (isString(input)) {
+		return input;
+	}
+
+	if (input instanceof URL) {
+		return input.search;
+	}
+
+	if (typeof Request !== 'undefined' && input instanceof Request) {
+		return new URL(input.url).search;
+	}
+
+	const encodeOptions: QsOptions = { charset: options?.charset, mode: options?.mode };
+	const pairs: string[] = [];
+
+	(input as URLSearchParams).forEach((value: FormDataEntryValue, key: string) => {
+		// Files have no query string representation
+		if (isString(value)) {
+			pairs.push(`${encodeComponent(key, 'key', encodeOptions)}=${encodeComponent(value, 'value', encodeOptions)}`);
+		}
+	});
+
+	return pairs.join('&');
+};
 
-					return [...reduction, ...buildKeyValuePairs(value, keyPath)];
-				}
+// Exceeded limits become issues, a custom onLimit is still called
+const reportLimit = (options: QsOptions | undefined, issues: QsParseIssue[]) => {
+	return (exceeded: QsLimitExceeded) => {
+		issues.push({ key: exceeded.key ?? '', message: `exceeds ${exceeded.limit}`, offset: null, segment: String(exceeded.value) });
+
+		if (isFunction(options?.onLimit)) {
+			options.onLimit(exceeded);
+		}
+	};
+};
+
+const parseInput = <T, S extends QsSchemaShape | undefined>(
+	input: QsInput,
+	initialOptions: QsOptions<S> | undefined,
+	issues: QsParseIssue[]
+) => {
+	const options = initialOptions?.strict ? { ...initialOptions, onLimit: reportLimit(initialOptions, issues) } : initialOptions;
+	const str = options?.compact ? inflateCompact(readInput(input, options), options, issues) : readInput(input, options);
+	let result = parseRaw(str, options, !options?.schema, issues);
+
+	if (options?.strict && size(issues) > 0) {
+		throw new QsParseError(issues);
+	}
+
+	if (options?.schema) {
+		const schemaIssues: QsSchemaIssue[] = [];
+
+		result = coerceSchema(options.schema, result, '', schemaIssues);
+
+		if (size(schemaIssues) > 0) {
+			throw new QsSchemaError(schemaIssues);
+		}
+	}
+
+	return (options?.defaults ? fillDefaults(result, options.defaults) : result) as QsParseOutput<T, S>;
+};
+
+const parse = <T extends Record<string, any> = never, S extends QsSchemaShape | undefined = undefined>(
+	input: QsInput,
+	options?: QsOptions<S>
+): QsParseOutput<T, S> => {
+	return parseInput<T, S>(input, options, []);
+};
+
+// Every problem becomes an issue, limits truncate and report instead of throwing
+const safeParse = <T extends Record<string, any> = never, S extends QsSchemaShape | undefined = undefined>(
+	input: QsInput,
+	options?: QsOptions<S>
+): QsSafeParseResult<QsParseOutput<T, S>> => {
+	const issues: QsParseIssue[] = [];
+
+	try {
+		return { data: parseInput<T, S>(input, { ...options, onLimit: reportLimit(options, issues), strict: false }, issues), issues };
+	} catch (err) {
+		if (err instanceof QsSchemaError) {
+			const schemaIssues = map(err.issues, issue => ({
+				key: issue.path,
+				message: issue.message,
+				offset: null,
+				segment: isString(issue.value) ? issue.value : ''
+			}));
+
+			return { data: null, issues: [...issues, ...schemaIssues] };
+		}
+
+		// Conflicts set to 'error' stop parsing, their issue is already listed
+		if (err instanceof QsParseError) {
+			return { data: null, issues };
+		}
+
+		if (err instanceof QsKeyMapError) {
+			return { data: null, issues: [...issues, { key: err.key, message: 'is not in keyMap', offset: null, segment: err.key }] };
+		}
+
+		throw err;
+	}
+};
+
+// Compacted subtrees are written as regular pairs first, then packed into a single param
+const splitCompact = (obj: Record<string, any>, options?: QsOptions) => {
+	const paths = isArray(options?.compact) ? options.compact : null;
+	const innerOptions = { ...options, addQueryPrefix: false, charsetSentinel: false, compact: false };
+	const compactKey = options?.compactKey ?? 's';
+	const inner = stringify(paths ? pick(obj, paths) : obj, innerOptions);
+	const rest = stringify(paths ? omit(obj, paths) : {}, innerOptions);
+
+	// A second param under compactKey would shadow the compact one when parsing
+	if (inner && some(tokenizeQuery(rest), token => token.key === compactKey)) {
+		throw new Error(`Key '${compactKey}' is reserved by compactKey`);
+	}
+
+	return { inner, rest };
+};
+
+// Queries lead with '?' and form bodies with the charset sentinel, when asked for
+const joinPairs = (pairs: string[], options?: QsOptions): string => {
+	if (isEmpty(pairs)) {
+		return '';
+	}
+
+	const prefix = (options?.addQueryPrefix ?? options?.mode !== 'form') ? '?' : '';
+	const sentinel = options?.charsetSentinel ? [`utf8=${CHARSET_SENTINELS[options.charset ?? 'utf-8']}`] : [];
+
+	return `${prefix}${[...sentinel, ...pairs].join('&')}`;
+};
+
+const joinCompact = (rest: string, compressor: QsCompressor, data: Uint8Array | null, options?: QsOptions): string => {
+	const pairs = rest ? [rest] : [];
+
+	if (data) {
+		pairs.push(`${options?.compactKey ?? 's'}=${compressor.id}.${base64Url(data)}`);
+	}
+
+	return joinPairs(pairs, options);
+};
+
+// Defaults are compared before the schema turns values into strings
+const prepareSource = (obj: Record<string, any>, options?: QsOptions): Record<string, any> => {
+	const source = options?.defaults ? omitDefaults(obj, options.defaults) : obj;
+
+	return options?.schema ? serializeSchema(options.schema, source) : source;
+};
+
+const stringify = <T extends Record<string, any> = Record<string, any>, S extends QsSchemaShape | undefined = undefined>(
+	obj: T,
+	options?: QsOptions<S>
+): string => {
+	if (options?.compact) {
+		const { inner, rest } = splitCompact(obj, options);
+		const compressor = options.compressor ?? compressors.lzw;
+		const data = inner ? assertSync(compressor.compress(new TextEncoder().encode(inner)), 'stringifyAsync') : null;
 
-				const transformedKey = transformKey(keyPath, options);
+		return joinCompact(rest, compressor, data, options);
+	}
 
-				return [...reduction, `${addPrefix(transformedKey, options)}=${processValue(value)}`];
-			},
-			[]
+	if (options?.namespaces) {
+		const source = prepareSource(obj, options);
+		const pairs = filter(
+			map(getNamespaces(options), namespace =>
+				stringify(source[namespace.name] ?? {}, { ...namespace.options, addQueryPrefix: false, charsetSentinel: false })
+			),
+			pair => !isEmpty(pair)
 		);
+
+		return joinPairs(pairs, options);
+	}
+
+	const separator = options?.arrayFormatSeparator ?? ',';
+
+	const encodeValue = (value: any): string => {
+		if (isNil(value)) {
+			return value === null && !isUndefined(options?.nullValue) ? encodeComponent(options.nullValue, 'value', options) : '';
+		}
+
+		const codec = findCodec(value, options);
+		let stringValue: string;
+
+		if (codec) {
+			stringValue = `${codec.name}(${codec.encode(value)})`;
+		} else if (isDate(value)) {
+			stringValue = value.toISOString();
+		} else if (isObject(value) && !isArray(value)) {
+			stringValue = JSON.stringify(value);
+		} else {
+			stringValue = String(value);
+		}
+
+		return encodeComponent(stringValue, 'value', options);
+	};
+
+	// Comma lists are split before decoding, so separators are escaped in every value, not only in list items
+	const processValue = (value: any): string => {
+		const encoded = encodeValue(value);
+
+		return options?.arrayFormat === 'comma' ? encoded.split(separator).join(encodeURIComponent(separator)) : encoded;
+	};
+
+	const buildKey = (keyPath: string): string => {
+		return encodeKey(addPrefix(transformKey(keyPath, options), options), options);
+	};
+
+	// Flags and nulls can be written as keys without a value
+	const buildPair = (key: string, value: any): string => {
+		const isBare = (value === true && options?.bareKeys === 'true') || (value === null && options?.bareKeys === 'null');
+
+		return isBare ? key : `${key}=${processValue(value)}`;
+	};
+
+	// Sorting applies to object keys at every level, never to array indices
+	const getKeys = (input: any): string[] => {
+		const inputKeys = keys(input);
+
+		if (!options?.sort || isArray(input)) {
+			return inputKeys;
+		}
+
+		return inputKeys.sort(isFunction(options.sort) ? options.sort : undefined);
+	};
+
+	// Pairs go into one shared list, so nesting does not copy what came before
+	const buildKeyValuePairs = (input: any, prefix: string = '', pairs: string[] = []): string[] => {
+		forEach(getKeys(input), (key: string) => {
+			// Kept values are unwrapped here too, so they write the same with or without defaults
+			const unwrapped = unwrapKeep(input[key]);
+			const value = isArray(unwrapped) ? map(unwrapped, unwrapKeep) : unwrapped;
+			// Items of nested arrays keep index brackets, so they do not come back as numeric keys
+			const keyPath = isArray(input) ? `${prefix}[${key}]` : joinPath(prefix, key, options);
+
+			if (shouldOmitValue(value, keyPath, options)) {
+				return;
+			}
+
+			if (isArray(value)) {
+				if (isEmpty(value)) {
+					return;
+				}
+
+				const arrayFormat = options?.arrayFormat ?? 'indices';
+
+				// Nested items need indices to stay addressable, whatever the format
+				if (arrayFormat !== 'indices' && every(value, item => isLeaf(item, options))) {
+					const arrayKey = buildKey(keyPath);
+
+					if (arrayFormat === 'comma' && size(value) > 1) {
+						pairs.push(`${arrayKey}=${map(value, processValue).join(separator)}`);
+
+						return;
+					}
+
+					// Single items keep brackets so they still parse back as arrays
+					const itemKey = arrayFormat === 'brackets' || size(value) === 1 ? `${arrayKey}[]` : arrayKey;
+
+					forEach(value, item => {
+						pairs.push(buildPair(itemKey, item));
+					});
+
+					return;
+				}
+
+				forEach(value, (item, index) => {
+					const arrayKey = transformKey(`${keyPath}[${index}]`, options);
+
+					if (!isLeaf(item, options)) {
+						buildKeyValuePairs(item, arrayKey, pairs);
+					} else {
+						pairs.push(buildPair(buildKey(arrayKey), item));
+					}
+				});
+
+				return;
+			}
+
+			if (!isLeaf(value, options)) {
+				buildKeyValuePairs(value, keyPath, pairs);
+
+				return;
+			}
+
+			pairs.push(buildPair(buildKey(keyPath), value));
+		});
+
+		return pairs;
 	};
 
 	if (isEmpty(obj)) {
 		return '';
 	}
 
-	const pairs = buildKeyValuePairs(obj);
+	const source = prepareSource(obj, options);
+	const pairs = buildKeyValuePairs(options?.keyMap || options?.strictKeyMap ? aliasKeys(source, options) : source);
+
+	return joinPairs(pairs, options);
+};
+
+const keep = <T>(value: T): QsKeep<T> => {
+	return new QsKeep(value);
+};
+
+const canonicalize = (input: QsInput, options?: QsOptions): string => {
+	return stringify(parse(input, options), { ...options, sort: options?.sort ?? true });
+};
+
+const equals = (a: QsInput, b: QsInput, options?: QsOptions): boolean => {
+	return isEqual(parse(a, options), parse(b, options));
+};
+
+const getSubtle = (options?: QsSignOptions): SubtleCrypto => {
+	const subtle = options?.subtle ?? globalThis.crypto?.subtle;
+
+	if (!subtle) {
+		throw new Error('Web Crypto is not available, pass options.subtle');
+	}
+
+	return subtle;
+};
+
+const importSigningKey = (subtle: SubtleCrypto, secret: string, options?: QsSignOptions): Promise<CryptoKey> => {
+	return subtle.importKey('raw', new TextEncoder().encode(secret), { hash: options?.algorithm ?? 'SHA-256', name: 'HMAC' }, false, [
+		'sign',
+		'verify'
+	]);
+};
+
+// The signed message is the canonical form, so param order never changes the signature
+const getCanonical = (obj: Record<string, any>, options?: QsSignOptions): string => {
+	return stringify(obj, { ...options, addQueryPrefix: false, charsetSentinel: false, sort: true });
+};
+
+const getSignedMessage = (canonical: string, expires: string | undefined): Uint8Array => {
+	return new TextEncoder().encode(isUndefined(expires) ? canonical : `${canonical}\n${expires}`);
+};
+
+const sign = async (obj: Record<string, any>, secret: string, options?: QsSignOptions): Promise<string> => {
+	const now = options?.now?.() ?? Date.now();
+	const expiresAt = options?.expiresAt ?? (isUndefined(options?.expiresIn) ? undefined : now + options.expiresIn);
+	const expires = isUndefined(expiresAt) ? undefined : String(Math.floor(Number(expiresAt) / 1000));
+	const expiresKey = options?.expiresKey ?? 'exp';
+	const signatureKey = options?.signatureKey ?? 'sig';
+	const str = stringify(obj, { ...options, addQueryPrefix: false });
+	const reserved = find(tokenizeQuery(str), token => token.key === expiresKey || token.key === signatureKey);
+
+	// verify takes these keys out before parsing, so a signed link holding one could never verify
+	if (reserved) {
+		throw new Error(`Key '${reserved.key}' is reserved by ${reserved.key === signatureKey ? 'signatureKey' : 'expiresKey'}`);
+	}
+
+	const subtle = getSubtle(options);
+	const key = await importSigningKey(subtle, secret, options);
+	const signature = await subtle.sign('HMAC', key, getSignedMessage(getCanonical(obj, options), expires));
+	const pairs = str ? [str] : [];
+
+	if (!isUndefined(expires)) {
+		pairs.push(`${expiresKey}=${expires}`);
+	}
+
+	pairs.push(`${signatureKey}=${base64Url(signature)}`);
+
+	return `${(options?.addQueryPrefix ?? true) ? '?' : ''}${pairs.join('&')}`;
+};
+
+const verify = async <T = Record<string, any>>(input: QsInput, secret: string, options?: QsSignOptions): Promise<QsVerifyResult<T>> => {
+	const expiresKey = options?.expiresKey ?? 'exp';
+	const signatureKey = options?.signatureKey ?? 'sig';
+	const params: Record<string, string> = {};
+	const rest = map(
+		filter(tokenizeQuery(readInput(input, options)), ({ key, value }) => {
+			if (key === expiresKey || key === signatureKey) {
+				params[key] = value;
+
+				return false;
+			}
+
+			return true;
+		}),
+		token => token.pair
+	);
+
+	if (isUndefined(params[signatureKey])) {
+		return { ok: false, reason: 'missing' };
+	}
+
+	const signature = fromBase64Url(params[signatureKey]);
+
+	if (!signature) {
+		return { ok: false, reason: 'badSignature' };
+	}
+
+	const data = parse(rest.join('&'), options);
+	const canonical = getCanonical(data, options);
+	const subtle = getSubtle(options);
+	const key = await importSigningKey(subtle, secret, options);
+
+	// Web Crypto verifies HMAC signatures in constant time
+	const valid = await subtle.verify('HMAC', key, signature, getSignedMessage(canonical, params[expiresKey]));
+
+	// Pairs that stringify drops, like `&x=` or a repeated key, would otherwise ride along unsigned
+	const received = filter(rest, pair => !isEmpty(parse(pair, options)));
+	const signed = canonical ? canonical.split('&') : [];
+
+	if (!valid || !isEqual([...received].sort(), [...signed].sort())) {
+		return { ok: false, reason: 'badSignature' };
+	}
+
+	const now = options?.now?.() ?? Date.now();
+
+	if (!isUndefined(params[expiresKey]) && Number(params[expiresKey]) * 1000 <= now) {
+		return { ok: false, reason: 'expired' };
+	}
+
+	return { data: data as T, ok: true };
+};
+
+// Leaf paths a patch writes to; arrays and other non-plain values are replaced whole
+const getPatchPaths = (patch: Record<string, any>, path: string[] = []): string[][] => {
+	return reduce(
+		patch,
+		(reduction: string[][], value, key) => {
+			if (isPlainObject(value) && !isEmpty(value)) {
+				return [...reduction, ...getPatchPaths(value, [...path, key])];
+			}
+
+			if (isPlainObject(value)) {
+				return reduction;
+			}
+
+			return [...reduction, [...path, key]];
+		},
+		[]
+	);
+};
+
+const isPathOverlap = (a: QsPathSegment[], b: QsPathSegment[]): boolean => {
+	return every(slice(a, 0, Math.min(size(a), size(b))), (segment, index) => segment === b[index]);
+};
+
+const update = (input: QsInput, patch: Record<string, any>, options?: QsOptions): string => {
+	// Patching pairs in place cannot reach into a compressed param
+	if (options?.compact) {
+		throw new Error('update cannot patch compact params, use parse and stringify');
+	}
+
+	const patchPaths = getPatchPaths(patch);
+	const written = map(patchPaths, () => false);
+	const buildPatchPairs = (index: number): string[] => {
+		const path = patchPaths[index];
+		const str = stringify(setWith({}, path, get(patch, path), Object), { ...options, addQueryPrefix: false, charsetSentinel: false });
+
+		written[index] = true;
+
+		return filter(str.split('&'), pair => !isEmpty(pair));
+	};
+
+	const pairs = reduce(
+		tokenizeQuery(readInput(input, options)),
+		(reduction: string[], { key, pair }) => {
+			const parsedKey = parseKey(key, options);
+
+			// Foreign params are kept byte for byte
+			if (!parsedKey) {
+				reduction.push(pair);
+
+				return reduction;
+			}
+
+			const indexes = filter(range(size(patchPaths)), index => isPathOverlap(patchPaths[index], parsedKey.path));
+
+			if (isEmpty(indexes)) {
+				reduction.push(pair);
+
+				return reduction;
+			}
+
+			// Patched values take the place of the first pair they overwrite
+			forEach(indexes, index => {
+				if (!written[index]) {
+					reduction.push(...buildPatchPairs(index));
+				}
+			});
+
+			return reduction;
+		},
+		[]
+	);
+
+	forEach(written, (isWritten, index) => {
+		if (!isWritten) {
+			pairs.push(...buildPatchPairs(index));
+		}
+	});
+
+	return joinPairs(pairs, { ...options, charsetSentinel: false });
+};
+
+const getPath = <T extends Record<string, any> = Record<string, any>, P extends QsPath<T> = QsPath<T>>(
+	input: QsInput,
+	path: P,
+	options?: QsOptions
+): QsPathValue<T, P> | undefined => {
+	return get(parse(input, options), path);
+};
+
+// Array items are patched through their array, since update replaces arrays whole
+const setPath = <T extends Record<string, any> = Record<string, any>, P extends QsPath<T> = QsPath<T>>(
+	input: QsInput,
+	path: P,
+	value: QsPathValue<T, P> | undefined,
+	options?: QsOptions
+): string => {
+	const segments = toPath(path);
+	const index = findIndex(segments, segment => /^\d+$/.test(segment));
+
+	if (index === -1) {
+		return update(input, setWith({}, segments, value, Object), options);
+	}
+
+	const arrayPath = slice(segments, 0, index);
+	const parsed = parse(input, options);
+	const parent = get(parsed, initial(segments));
+
+	// Removed items close the gap, a hole would be written as an empty value
+	if (isUndefined(value) && isArray(parent) && /^\d+$/.test(last(segments)!)) {
+		pullAt(parent, Number(last(segments)));
+	} else {
+		set(parsed, segments, value);
+	}
+
+	return update(input, setWith({}, arrayPath, get(parsed, arrayPath), Object), options);
+};
+
+const getAsyncCompressor = (options?: QsOptions): QsCompressor => {
+	if (options?.compressor) {
+		return options.compressor;
+	}
+
+	// Deflate needs the platform, LZW is the fallback that runs anywhere
+	const hasDeflate = typeof CompressionStream !== 'undefined' || (typeof process !== 'undefined' && isFunction(process.getBuiltinModule));
+
+	return hasDeflate ? compressors.deflate : compressors.lzw;
+};
+
+const parseAsync = async <T extends Record<string, any> = never, S extends QsSchemaShape | undefined = undefined>(
+	input: QsInput,
+	options?: QsOptions<S>
+): Promise<QsParseOutput<T, S>> => {
+	if (!options?.compact) {
+		return parse<T, S>(input, options);
+	}
+
+	return parse<T, S>(await inflateCompactAsync(readInput(input, options), options), { ...options, compact: false });
+};
+
+const stringifyAsync = async <T extends Record<string, any> = Record<string, any>, S extends QsSchemaShape | undefined = undefined>(
+	obj: T,
+	options?: QsOptions<S>
+): Promise<string> => {
+	if (!options?.compact) {
+		return stringify(obj, options);
+	}
+
+	const { inner, rest } = splitCompact(obj, options);
+	const compressor = getAsyncCompressor(options);
+	const data = inner ? await compressor.compress(new TextEncoder().encode(inner)) : null;
+
+	return joinCompact(rest, compressor, data, options);
+};
+
+// Keys being written replace the target's own, so repeated keys are not mixed
+const writeParams = <T extends URLSearchParams | FormData>(obj: Record<string, any>, options: QsOptions | undefined, target: T): T => {
+	const params = new URLSearchParams(stringify(obj, { ...options, addQueryPrefix: false }));
+
+	params.forEach((value, key) => {
+		target.delete(key);
+	});
+
+	params.forEach((value, key) => {
+		target.append(key, value);
+	});
+
+	return target;
+};
+
+const toSearchParams = (
+	obj: Record<string, any>,
+	options?: QsOptions,
+	target: URLSearchParams = new URLSearchParams()
+): URLSearchParams => {
+	return writeParams(obj, options, target);
+};
+
+const toFormData = (obj: Record<string, any>, options?: QsOptions, target: FormData = new FormData()): FormData => {
+	return writeParams(obj, options, target);
+};
+
+const toUrl = (url: string | URL, obj: Record<string, any>, options?: QsOptions): URL => {
+	const result = new URL(url);
+
+	result.search = stringify(obj, { ...options, addQueryPrefix: false });
+
+	return result;
+};
+
+// Full URLs without a fragment have no hash state, any other string is the fragment itself
+const readHash = (input: string | URL): string => {
+	if (input instanceof URL) {
+		return input.hash.slice(1);
+	}
+
+	const index = input.indexOf('#');
+
+	if (index !== -1) {
+		return input.slice(index + 1);
+	}
+
+	return /^[a-z][a-z\d+.-]*:/i.test(input) ? '' : input;
+};
+
+// Hash routes keep their query after '?', as in `#/orders?status=open`, other fragments are a query themselves
+const splitHash = (hash: string): { path: string; query: string } => {
+	const index = hash.indexOf('?');
+
+	if (index !== -1) {
+		return { path: hash.slice(0, index), query: hash.slice(index + 1) };
+	}
+
+	return startsWith(hash, '/') ? { path: hash, query: '' } : { path: '', query: hash };
+};
+
+const parseHash = <T extends Record<string, any> = never, S extends QsSchemaShape | undefined = undefined>(
+	input: string | URL,
+	options?: QsOptions<S>
+): QsParseOutput<T, S> => {
+	return parse<T, S>(splitHash(readHash(input)).query, options);
+};
+
+const toHash = (input: string | URL, obj: Record<string, any>, options?: QsOptions): string => {
+	const { path } = splitHash(readHash(input));
+	const query = stringify(obj, { ...options, addQueryPrefix: false });
+
+	if (!path) {
+		return query ? `#${query}` : '';
+	}
+
+	return query ? `#${path}?${query}` : `#${path}`;
+};
+
+const toHashUrl = (url: string | URL, obj: Record<string, any>, options?: QsOptions): URL => {
+	const result = new URL(url);
+
+	result.hash = toHash(result, obj, options);
 
-	return size(pairs) ? `${(options?.addQueryPrefix ?? true) ? '?' : ''}${pairs.join('&')}` : '';
+	return result;
 };
 
-export { QsOptions };
+export { QsKeyMapError, QsLimitError, QsParseError, QsSchemaError };
+export type {
+	QsArrayFormat,
+	QsBareKeys,
+	QsCase,
+	QsCased,
+	QsCharset,
+	QsCaseKey,
+	QsCodec,
+	QsCompressor,
+	QsDuplicates,
+	QsEncodeKind,
+	QsFormat,
+	QsInferSchema,
+	QsInput,
+	QsKeep,
+	QsLimit,
+	QsLimitExceeded,
+	QsMode,
+	QsNamespace,
+	QsNesting,
+	QsOptions,
+	QsParseIssue,
+	QsParseOutput,
+	QsPath,
+	QsPathConflicts,
+	QsPathValue,
+	QsSafeParseResult,
+	QsSchemaIssue,
+	QsSchemaNode,
+	QsSchemaShape,
+	QsSignOptions,
+	QsSparseArrays,
+	QsVerifyResult
+};
 export default {
+	canonicalize,
+	codecs,
+	compressors,
+	defaultCodecs: DEFAULT_CODECS,
+	equals,
+	get: getPath,
+	keep,
 	parse,
-	stringify
+	parseAsync,
+	parseHash,
+	safeParse,
+	schema,
+	set: setPath,
+	sign,
+	stringify,
+	stringifyAsync,
+	toFormData,
+	toHash,
+	toHashUrl,
+	toSearchParams,
+	toUrl,
+	update,
+	verify
 };
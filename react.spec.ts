@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useQs, useQueryState } from './react';
+import { createQsStore } from './store';
+
+describe('/react', () => {
+	beforeEach(() => {
+		window.history.replaceState(null, '', '/page?utm=mail&f-page=2&f-sort=asc#top');
+	});
+
+	afterEach(() => {
+		cleanup();
+		vi.restoreAllMocks();
+	});
+
+	describe('useQs', () => {
+		it('should read state from the URL', () => {
+			const { result } = renderHook(() => useQs({ prefix: 'f-' }));
+
+			expect(result.current[0]).toEqual({ page: 2, sort: 'asc' });
+		});
+
+		it('should patch the URL, keeping foreign params, path and hash', async () => {
+			const { result } = renderHook(() => useQs({ prefix: 'f-' }));
+
+			await act(async () => {
+				result.current[1]({ page: 3, sort: undefined });
+			});
+
+			expect(window.location.pathname + window.location.search + window.location.hash).toEqual('/page?utm=mail&f-page=3#top');
+			expect(result.current[0]).toEqual({ page: 3 });
+		});
+
+		it('should replace history by default and push on request', async () => {
+			const pushState = vi.spyOn(window.history, 'pushState');
+			const replaceState = vi.spyOn(window.history, 'replaceState');
+			const { result } = renderHook(() => useQs({ prefix: 'f-' }));
+
+			await act(async () => {
+				result.current[1]({ page: 3 });
+			});
+
+			expect(replaceState).toHaveBeenCalledTimes(1);
+			expect(pushState).not.toHaveBeenCalled();
+
+			await act(async () => {
+				result.current[1]({ page: 4 }, { history: 'push' });
+			});
+
+			expect(pushState).toHaveBeenCalledTimes(1);
+		});
+
+		it('should batch updates in one tick into one history entry', async () => {
+			const pushState = vi.spyOn(window.history, 'pushState');
+			const { result } = renderHook(() => useQs({ history: 'push', prefix: 'f-' }));
+
+			await act(async () => {
+				result.current[1]({ page: 3 });
+				result.current[1](state => ({ page: state.page + 1 }));
+				result.current[1]({ sort: 'desc' });
+			});
+
+			expect(pushState).toHaveBeenCalledTimes(1);
+			expect(window.location.search).toEqual('?utm=mail&f-page=4&f-sort=desc');
+			expect(result.current[0]).toEqual({ page: 4, sort: 'desc' });
+		});
+
+		it('should apply case options', async () => {
+			window.history.replaceState(null, '', '/?page-size=10');
+
+			const { result } = renderHook(() => useQs({ case: 'kebab-case' }));
+
+			expect(result.current[0]).toEqual({ pageSize: 10 });
+
+			await act(async () => {
+				result.current[1]({ pageSize: 20, sortOrder: 'asc' });
+			});
+
+			expect(window.location.search).toEqual('?page-size=20&sort-order=asc');
+		});
+
+		it('should update on popstate', async () => {
+			const { result } = renderHook(() => useQs({ prefix: 'f-' }));
+
+			await act(async () => {
+				window.history.pushState(null, '', '/page?f-page=9');
+				window.dispatchEvent(new PopStateEvent('popstate'));
+			});
+
+			expect(result.current[0]).toEqual({ page: 9 });
+		});
+	});
+
+	describe('useQueryState', () => {
+		it('should read a key with a default', () => {
+			const { result } = renderHook(() => useQueryState('sort', 'asc'));
+			const { result: missing } = renderHook(() => useQueryState('filters.status', 'open'));
+
+			expect(result.current[0]).toEqual('asc');
+			expect(missing.current[0]).toEqual('open');
+		});
+
+		it('should write nested keys and remove them with undefined', async () => {
+			const { result } = renderHook(() => useQueryState<string[]>('filters.status', []));
+
+			await act(async () => {
+				result.current[1](['open', 'closed']);
+			});
+
+			expect(window.location.search).toEqual('?utm=mail&f-page=2&f-sort=asc&filters.status[0]=open&filters.status[1]=closed');
+			expect(result.current[0]).toEqual(['open', 'closed']);
+
+			await act(async () => {
+				result.current[1](undefined);
+			});
+
+			expect(window.location.search).toEqual('?utm=mail&f-page=2&f-sort=asc');
+			expect(result.current[0]).toEqual([]);
+		});
+
+		it('should share state between hooks', async () => {
+			const { result: page } = renderHook(() => useQueryState('page', 1, { prefix: 'f-' }));
+			const { result: all } = renderHook(() => useQs({ prefix: 'f-' }));
+
+			await act(async () => {
+				page.current[1](value => value + 1);
+				page.current[1](value => value + 1);
+			});
+
+			expect(page.current[0]).toEqual(4);
+			expect(all.current[0]).toEqual({ page: 4, sort: 'asc' });
+		});
+	});
+
+	describe('stores', () => {
+		it('should share URL state with stores in both directions', async () => {
+			const store = createQsStore({ prefix: 'f-' });
+			const listener = vi.fn();
+			const { result } = renderHook(() => useQs({ prefix: 'f-' }));
+
+			store.subscribe(listener);
+
+			act(() => {
+				store.set({ page: 3 });
+			});
+
+			expect(result.current[0]).toEqual({ page: 3, sort: 'asc' });
+
+			await act(async () => {
+				result.current[1]({ sort: 'desc' });
+			});
+
+			expect(listener).toHaveBeenLastCalledWith({ page: 3, sort: 'desc' });
+			expect(store.get()).toEqual({ page: 3, sort: 'desc' });
+
+			store.destroy();
+		});
+	});
+
+	describe('server rendering', () => {
+		it('should render without reading window', () => {
+			const Component = () => {
+				const [state] = useQs({ serverSearch: '?page=3' });
+
+				return createElement('span', null, state.page);
+			};
+
+			expect(renderToString(createElement(Component))).toEqual('<span>3</span>');
+		});
+	});
+});
@@ -0,0 +1,101 @@
+import get from 'lodash/get';
+import isFunction from 'lodash/isFunction';
+import setWith from 'lodash/setWith';
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+
+import qs, { QsOptions } from './index';
+import { notifyWindow, QsHistoryMode, subscribeWindow } from './store';
+
+type QsHookOptions = QsOptions & {
+	history?: QsHistoryMode;
+	serverSearch?: string;
+};
+type QsSetOptions = {
+	history?: QsHistoryMode;
+};
+
+let pending: { history: QsHistoryMode; search: string } | null = null;
+
+// Pending updates are included, so updaters see the state the next render will have
+const getSearch = (): string => {
+	return pending?.search ?? window.location.search;
+};
+
+const flush = () => {
+	if (!pending) {
+		return;
+	}
+
+	const { history, search } = pending;
+	const url = `${window.location.pathname}${search}${window.location.hash}`;
+
+	pending = null;
+
+	if (history === 'push') {
+		window.history.pushState(window.history.state, '', url);
+	} else {
+		window.history.replaceState(window.history.state, '', url);
+	}
+
+	// Stores on the page share this channel, so their subscribers see hook writes too
+	notifyWindow();
+};
+
+// Updates within the same tick are applied in order and land in a single history entry
+const write = (patch: Record<string, any>, options: QsHookOptions, history: QsHistoryMode) => {
+	if (typeof window === 'undefined') {
+		return;
+	}
+
+	if (!pending) {
+		queueMicrotask(flush);
+	}
+
+	pending = {
+		history: pending?.history === 'push' ? 'push' : history,
+		search: qs.update(getSearch(), patch, { ...options, addQueryPrefix: true })
+	};
+};
+
+const useQs = <T extends Record<string, any> = Record<string, any>>(options: QsHookOptions = {}) => {
+	const optionsRef = useRef(options);
+	const search = useSyncExternalStore(
+		subscribeWindow,
+		() => window.location.search,
+		() => options.serverSearch ?? ''
+	);
+
+	optionsRef.current = options;
+
+	const state = useMemo(() => {
+		return qs.parse(search, optionsRef.current) as T;
+	}, [search]);
+
+	const setState = useCallback((patch: Partial<T> | ((state: T) => Partial<T>), setOptions?: QsSetOptions) => {
+		const currentOptions = optionsRef.current;
+		const value = isFunction(patch) ? patch(qs.parse(getSearch(), currentOptions) as T) : patch;
+
+		write(value, currentOptions, setOptions?.history ?? currentOptions.history ?? 'replace');
+	}, []);
+
+	return [state, setState] as const;
+};
+
+const useQueryState = <T>(key: string, defaultValue: T, options: QsHookOptions = {}) => {
+	const [state, setState] = useQs(options);
+	const value: T = get(state, key, defaultValue);
+
+	const setValue = useCallback(
+		(next: T | undefined | ((value: T) => T | undefined), setOptions?: QsSetOptions) => {
+			setState(current => {
+				return setWith({}, key, isFunction(next) ? next(get(current, key, defaultValue)) : next, Object);
+			}, setOptions);
+		},
+		[key, setState]
+	);
+
+	return [value, setValue] as const;
+};
+
+export type { QsHistoryMode, QsHookOptions, QsSetOptions };
+export { useQs, useQueryState };
@@ -0,0 +1,225 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { browserHistory, createQsStore, hashHistory, memoryHistory, QsStore } from './store';
+
+describe('/store', () => {
+	const stores: QsStore<any>[] = [];
+	const track = <T extends QsStore<any>>(store: T) => {
+		stores.push(store);
+
+		return store;
+	};
+
+	beforeEach(() => {
+		window.history.replaceState(null, '', '/page?utm=mail&f-page=2#top');
+	});
+
+	afterEach(() => {
+		stores.splice(0).forEach(store => {
+			store.destroy();
+		});
+
+		vi.useRealTimers();
+	});
+
+	describe('get / set', () => {
+		it('should read and patch state', () => {
+			const history = memoryHistory('?page=2&sort=asc');
+			const store = track(createQsStore({ adapter: history }));
+
+			expect(store.get()).toEqual({ page: 2, sort: 'asc' });
+
+			store.set({ page: 3, sort: undefined });
+
+			expect(store.get()).toEqual({ page: 3 });
+			expect(history.read()).toEqual('?page=3');
+		});
+
+		it('should accept updaters', () => {
+			const store = track(createQsStore<{ page: number }>({ adapter: memoryHistory('?page=2') }));
+
+			store.set(state => ({ page: state.page + 1 }));
+			store.set(state => ({ page: state.page + 1 }));
+
+			expect(store.get()).toEqual({ page: 4 });
+		});
+
+		it('should keep the same state object while nothing changes', () => {
+			const history = memoryHistory('?a=1');
+			const store = track(createQsStore({ adapter: history, prefix: 'a-' }));
+			const state = store.get();
+
+			history.write('?a=2', 'replace');
+
+			expect(store.get()).toBe(state);
+		});
+	});
+
+	describe('subscribe', () => {
+		it('should notify on changes until unsubscribed', () => {
+			const store = track(createQsStore({ adapter: memoryHistory() }));
+			const listener = vi.fn();
+			const unsubscribe = store.subscribe(listener);
+
+			store.set({ page: 1 });
+			store.set({ page: 1 });
+			unsubscribe();
+			store.set({ page: 2 });
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener).toHaveBeenCalledWith({ page: 1 });
+		});
+
+		it('should notify on history navigation', () => {
+			const history = memoryHistory('?page=1');
+			const store = track(createQsStore({ adapter: history, history: 'push' }));
+			const listener = vi.fn();
+
+			store.subscribe(listener);
+			store.set({ page: 2 });
+			history.go(-1);
+
+			expect(history.entries).toEqual(['?page=1', '?page=2']);
+			expect(listener).toHaveBeenLastCalledWith({ page: 1 });
+			expect(store.get()).toEqual({ page: 1 });
+		});
+
+		it('should stop after destroy', () => {
+			const history = memoryHistory();
+			const store = createQsStore({ adapter: history });
+			const listener = vi.fn();
+
+			store.subscribe(listener);
+			store.destroy();
+			store.set({ page: 1 });
+			history.write('?page=2', 'replace');
+
+			expect(listener).not.toHaveBeenCalled();
+			expect(history.read()).toEqual('?page=2');
+		});
+	});
+
+	describe('prefix', () => {
+		it('should scope stores sharing one URL', () => {
+			const history = memoryHistory('?utm=mail');
+			const filters = track(createQsStore({ adapter: history, prefix: 'f-' }));
+			const table = track(createQsStore({ adapter: history, prefix: 't-' }));
+			const filtersListener = vi.fn();
+			const tableListener = vi.fn();
+
+			filters.subscribe(filtersListener);
+			table.subscribe(tableListener);
+			filters.set({ page: 2 });
+			table.set({ page: 5, sort: 'name' });
+
+			expect(history.read()).toEqual('?utm=mail&f-page=2&t-page=5&t-sort=name');
+			expect(filters.get()).toEqual({ page: 2 });
+			expect(table.get()).toEqual({ page: 5, sort: 'name' });
+			expect(filtersListener).toHaveBeenCalledTimes(1);
+			expect(tableListener).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('debounce', () => {
+		it('should update state at once and write the URL once', () => {
+			vi.useFakeTimers();
+
+			const history = memoryHistory('?page=1');
+			const write = vi.spyOn(history, 'write');
+			const store = track(createQsStore({ adapter: history, debounce: 100, history: 'push' }));
+
+			store.set({ page: 2 });
+			store.set({ q: 'a' });
+			store.set({ q: 'ab' });
+
+			expect(store.get()).toEqual({ page: 2, q: 'ab' });
+			expect(write).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(100);
+
+			expect(write).toHaveBeenCalledTimes(1);
+			expect(history.entries).toEqual(['?page=1', '?page=2&q=ab']);
+		});
+
+		it('should keep writes from other stores made while pending', () => {
+			vi.useFakeTimers();
+
+			const history = memoryHistory();
+			const search = track(createQsStore({ adapter: history, debounce: 100, prefix: 's-' }));
+			const table = track(createQsStore({ adapter: history, prefix: 't-' }));
+
+			search.set({ q: 'a' });
+			table.set({ page: 2 });
+
+			expect(search.get()).toEqual({ q: 'a' });
+
+			vi.advanceTimersByTime(100);
+
+			expect(history.read()).toEqual('?t-page=2&s-q=a');
+		});
+
+		it('should flush pending writes on destroy', () => {
+			vi.useFakeTimers();
+
+			const history = memoryHistory();
+			const store = createQsStore({ adapter: history, debounce: 100 });
+
+			store.set({ page: 2 });
+			store.destroy();
+
+			expect(history.read()).toEqual('?page=2');
+		});
+	});
+
+	describe('adapters', () => {
+		it('should write browser history, keeping path and hash', () => {
+			const pushState = vi.spyOn(window.history, 'pushState');
+			const store = track(createQsStore({ adapter: browserHistory(), prefix: 'f-' }));
+
+			expect(store.get()).toEqual({ page: 2 });
+
+			store.set({ page: 3 }, { history: 'push' });
+
+			expect(pushState).toHaveBeenCalledTimes(1);
+			expect(window.location.pathname + window.location.search + window.location.hash).toEqual('/page?utm=mail&f-page=3#top');
+
+			pushState.mockRestore();
+		});
+
+		it('should default to browser history and share it between stores', () => {
+			const filters = track(createQsStore({ prefix: 'f-' }));
+			const all = track(createQsStore());
+			const listener = vi.fn();
+
+			all.subscribe(listener);
+			filters.set({ page: 3 });
+
+			expect(listener).toHaveBeenCalledWith({ 'f-page': 3, utm: 'mail' });
+		});
+
+		it('should notify on popstate', () => {
+			const store = track(createQsStore({ adapter: browserHistory(), prefix: 'f-' }));
+			const listener = vi.fn();
+
+			store.subscribe(listener);
+			window.history.pushState(null, '', '/page?f-page=9');
+			window.dispatchEvent(new PopStateEvent('popstate'));
+
+			expect(listener).toHaveBeenCalledWith({ page: 9 });
+		});
+
+		it('should read and write the query after the hash route', () => {
+			window.history.replaceState(null, '', '/app?v=1#/users?page=2');
+
+			const store = track(createQsStore({ adapter: hashHistory() }));
+
+			expect(store.get()).toEqual({ page: 2 });
+
+			store.set({ page: 3 });
+
+			expect(window.location.search).toEqual('?v=1');
+			expect(window.location.hash).toEqual('#/users?page=3');
+		});
+	});
+});
@@ -0,0 +1,256 @@
+import debounce from 'lodash/debounce';
+import isEqual from 'lodash/isEqual';
+import isFunction from 'lodash/isFunction';
+import reduce from 'lodash/reduce';
+
+import qs, { QsOptions } from './index';
+
+type QsHistoryMode = 'push' | 'replace';
+type QsHistoryAdapter = {
+	read: () => string;
+	subscribe: (listener: () => void) => () => void;
+	write: (search: string, mode: QsHistoryMode) => void;
+};
+type QsMemoryHistory = QsHistoryAdapter & {
+	entries: string[];
+	go: (delta: number) => void;
+	index: number;
+};
+type QsStore<T extends Record<string, any> = Record<string, any>> = {
+	destroy: () => void;
+	flush: () => void;
+	get: () => T;
+	set: (patch: Partial<T> | ((state: T) => Partial<T>), setOptions?: QsStoreSetOptions) => void;
+	subscribe: (listener: (state: T) => void) => () => void;
+};
+type QsStoreOptions = QsOptions & {
+	adapter?: QsHistoryAdapter;
+	debounce?: number;
+	history?: QsHistoryMode;
+};
+type QsStoreSetOptions = {
+	history?: QsHistoryMode;
+};
+
+// Browser adapters and the React hooks share one listener set, so a write from any of them reaches all of them
+const windowListeners = new Set<() => void>();
+
+const notifyWindow = () => {
+	windowListeners.forEach(listener => {
+		listener();
+	});
+};
+
+const subscribeWindow = (listener: () => void) => {
+	windowListeners.add(listener);
+
+	if (windowListeners.size === 1) {
+		window.addEventListener('hashchange', notifyWindow);
+		window.addEventListener('popstate', notifyWindow);
+	}
+
+	return () => {
+		windowListeners.delete(listener);
+
+		if (windowListeners.size === 0) {
+			window.removeEventListener('hashchange', notifyWindow);
+			window.removeEventListener('popstate', notifyWindow);
+		}
+	};
+};
+
+const writeWindow = (url: string, mode: QsHistoryMode) => {
+	if (mode === 'push') {
+		window.history.pushState(window.history.state, '', url);
+	} else {
+		window.history.replaceState(window.history.state, '', url);
+	}
+
+	notifyWindow();
+};
+
+const browserHistory = (): QsHistoryAdapter => {
+	return {
+		read: () => {
+			return window.location.search;
+		},
+		subscribe: subscribeWindow,
+		write: (search, mode) => {
+			writeWindow(`${window.location.pathname}${search}${window.location.hash}`, mode);
+		}
+	};
+};
+
+// Query lives after the hash route, as in `#/users?page=2`
+const hashHistory = (): QsHistoryAdapter => {
+	const splitHash = () => {
+		const hash = window.location.hash.slice(1);
+		const index = hash.indexOf('?');
+
+		return index === -1 ? { path: hash, search: '' } : { path: hash.slice(0, index), search: hash.slice(index) };
+	};
+
+	return {
+		read: () => {
+			return splitHash().search;
+		},
+		subscribe: subscribeWindow,
+		write: (search, mode) => {
+			writeWindow(`${window.location.pathname}${window.location.search}#${splitHash().path}${search}`, mode);
+		}
+	};
+};
+
+const memoryHistory = (initial: string = ''): QsMemoryHistory => {
+	const listeners = new Set<() => void>();
+	const notify = () => {
+		listeners.forEach(listener => {
+			listener();
+		});
+	};
+
+	const history: QsMemoryHistory = {
+		entries: [initial],
+		go: delta => {
+			const index = Math.min(Math.max(history.index + delta, 0), history.entries.length - 1);
+
+			if (index !== history.index) {
+				history.index = index;
+				notify();
+			}
+		},
+		index: 0,
+		read: () => {
+			return history.entries[history.index];
+		},
+		subscribe: listener => {
+			listeners.add(listener);
+
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		write: (search, mode) => {
+			if (mode === 'push') {
+				history.entries = [...history.entries.slice(0, history.index + 1), search];
+				history.index += 1;
+			} else {
+				history.entries[history.index] = search;
+			}
+
+			notify();
+		}
+	};
+
+	return history;
+};
+
+const createQsStore = <T extends Record<string, any> = Record<string, any>>(options: QsStoreOptions = {}): QsStore<T> => {
+	const { adapter = typeof window === 'undefined' ? memoryHistory() : browserHistory(), debounce: wait = 0 } = options;
+	const listeners = new Set<(state: T) => void>();
+	const updateOptions = { ...options, addQueryPrefix: true };
+
+	let destroyed = false;
+	let mode: QsHistoryMode | null = null;
+	let patches: Record<string, any>[] = [];
+	let snapshot: { search: string; state: T } | null = null;
+
+	// Queued patches are replayed over the latest URL, so writes from other stores in between are kept
+	const getSearch = () => {
+		return reduce(patches, (search, patch) => qs.update(search, patch, updateOptions), adapter.read());
+	};
+
+	const get = (): T => {
+		const search = getSearch();
+
+		if (!snapshot || snapshot.search !== search) {
+			const state = qs.parse(search, options) as T;
+
+			// Changes outside this store's prefix keep the same state object
+			snapshot = { search, state: snapshot && isEqual(snapshot.state, state) ? snapshot.state : state };
+		}
+
+		return snapshot.state;
+	};
+
+	const notify = () => {
+		const previous = snapshot?.state;
+		const state = get();
+
+		if (state !== previous) {
+			listeners.forEach(listener => {
+				listener(state);
+			});
+		}
+	};
+
+	const write = () => {
+		if (!mode) {
+			return;
+		}
+
+		const search = getSearch();
+		const writeMode = mode;
+
+		mode = null;
+		patches = [];
+
+		if (search !== adapter.read()) {
+			adapter.write(search, writeMode);
+		}
+	};
+
+	const debouncedWrite = debounce(write, wait);
+	const unsubscribe = adapter.subscribe(notify);
+
+	const set = (patch: Partial<T> | ((state: T) => Partial<T>), setOptions?: QsStoreSetOptions) => {
+		if (destroyed) {
+			return;
+		}
+
+		patches.push(isFunction(patch) ? patch(get()) : patch);
+
+		// Push wins when writes with different modes are batched
+		mode = mode === 'push' ? 'push' : (setOptions?.history ?? options.history ?? 'replace');
+
+		if (wait > 0) {
+			notify();
+			debouncedWrite();
+		} else {
+			write();
+			notify();
+		}
+	};
+
+	const subscribe = (listener: (state: T) => void) => {
+		// Listeners are only told about changes from the state as of subscribing
+		get();
+		listeners.add(listener);
+
+		return () => {
+			listeners.delete(listener);
+		};
+	};
+
+	const destroy = () => {
+		if (destroyed) {
+			return;
+		}
+
+		debouncedWrite.flush();
+		destroyed = true;
+		listeners.clear();
+		unsubscribe();
+	};
+
+	return {
+		destroy,
+		flush: debouncedWrite.flush,
+		get,
+		set,
+		subscribe
+	};
+};
+
+export type { QsHistoryAdapter, QsHistoryMode, QsMemoryHistory, QsStore, QsStoreOptions, QsStoreSetOptions };
+export { browserHistory, createQsStore, hashHistory, memoryHistory, notifyWindow, subscribeWindow };
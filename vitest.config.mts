@@ -5,7 +5,11 @@ export default defineConfig({
 		coverage: {
 			provider: 'v8',
 			reporter: ['text', 'html'],
-			exclude: ['dist', '**/*.spec.ts', 'vitest.config.mts']
+			exclude: ['dist', '**/*.bench.ts', '**/*.spec.ts', '**/*.spec-d.ts', 'vitest.config.mts']
+		},
+		typecheck: {
+			enabled: true,
+			tsconfig: './tsconfig.spec.json'
 		}
 	}
 });